@@ -28,19 +28,48 @@ CREATE TABLE public.api_credentials (
   UNIQUE(user_id, service)
 );
 
+-- Container Replications table (a whole ClickUp folder or space)
+CREATE TABLE public.container_replications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  clickup_container_type TEXT NOT NULL CHECK (clickup_container_type IN ('folder', 'space')),
+  clickup_container_id TEXT NOT NULL,
+  clickup_container_name TEXT,
+  layout TEXT CHECK (layout IN ('board_per_list', 'group_per_list')) DEFAULT 'board_per_list',
+  monday_workspace_id TEXT NOT NULL,
+  monday_folder_id TEXT,
+  monday_board_id TEXT,
+  status TEXT CHECK (status IN ('pending', 'running', 'paused', 'completed', 'failed', 'cancelled')) DEFAULT 'pending',
+  total_lists INTEGER DEFAULT 0,
+  completed_lists INTEGER DEFAULT 0,
+  failed_lists INTEGER DEFAULT 0,
+  total_tasks INTEGER DEFAULT 0,
+  migrated_tasks INTEGER DEFAULT 0,
+  replication_mode TEXT CHECK (replication_mode IN ('full', 'structure_only', 'data_only')) DEFAULT 'full',
+  options JSONB DEFAULT '{}',
+  error_message TEXT,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
 -- List Replications table
 CREATE TABLE public.list_replications (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
-  clickup_list_id TEXT NOT NULL,
+  container_replication_id UUID REFERENCES public.container_replications(id) ON DELETE CASCADE,
+  direction TEXT CHECK (direction IN ('clickup_to_monday', 'monday_to_clickup')) DEFAULT 'clickup_to_monday',
+  clickup_list_id TEXT, -- For monday_to_clickup, set once the list is created
   clickup_list_name TEXT,
   monday_board_id TEXT,
   monday_board_name TEXT,
-  status TEXT CHECK (status IN ('mapping', 'creating', 'migrating', 'completed', 'failed')) DEFAULT 'mapping',
+  monday_group_id TEXT,
+  status TEXT CHECK (status IN ('mapping', 'creating', 'migrating', 'paused', 'completed', 'failed', 'cancelled')) DEFAULT 'mapping',
   total_tasks INTEGER DEFAULT 0,
   migrated_tasks INTEGER DEFAULT 0,
   replication_mode TEXT CHECK (replication_mode IN ('full', 'structure_only', 'data_only')) DEFAULT 'full',
   options JSONB DEFAULT '{}',
+  checkpoint JSONB,
   error_message TEXT,
   started_at TIMESTAMPTZ,
   completed_at TIMESTAMPTZ,
@@ -62,20 +91,45 @@ CREATE TABLE public.field_mappings (
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Status Mappings table (ClickUp status/priority → Monday status column label)
+CREATE TABLE public.status_mappings (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  replication_id UUID REFERENCES public.list_replications(id) ON DELETE CASCADE,
+  kind TEXT CHECK (kind IN ('status', 'priority')) NOT NULL,
+  clickup_value TEXT NOT NULL, -- Status name, or priority ID 1-4
+  clickup_name TEXT NOT NULL,
+  clickup_color TEXT,
+  clickup_order INTEGER DEFAULT 0,
+  monday_column_id TEXT,
+  monday_label TEXT NOT NULL, -- Several values sharing a label are merged
+  monday_label_index INTEGER, -- NULL until the label exists on the column
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(replication_id, kind, clickup_value)
+);
+
 -- Sync Jobs table
 CREATE TABLE public.sync_jobs (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
   replication_id UUID REFERENCES public.list_replications(id) ON DELETE SET NULL,
-  clickup_list_id TEXT NOT NULL,
-  monday_board_id TEXT NOT NULL,
-  job_type TEXT CHECK (job_type IN ('file_sync', 'full_replication', 'update_sync')) DEFAULT 'file_sync',
-  status TEXT CHECK (status IN ('pending', 'running', 'completed', 'failed')) DEFAULT 'pending',
+  container_replication_id UUID REFERENCES public.container_replications(id) ON DELETE SET NULL,
+  clickup_list_id TEXT,
+  monday_board_id TEXT,
+  job_type TEXT CHECK (job_type IN ('file_sync', 'full_replication', 'update_sync', 'container_replication', 'reverse_replication')) DEFAULT 'file_sync',
+  status TEXT CHECK (status IN ('pending', 'running', 'paused', 'completed', 'failed', 'cancelled', 'dead')) DEFAULT 'pending',
   total_tasks INTEGER DEFAULT 0,
   processed_tasks INTEGER DEFAULT 0,
   batch_size INTEGER DEFAULT 10,
   options JSONB DEFAULT '{}',
   error_log JSONB DEFAULT '[]',
+  attempts INTEGER DEFAULT 0,
+  max_attempts INTEGER DEFAULT 5,
+  run_after TIMESTAMPTZ DEFAULT NOW(),
+  locked_by TEXT,
+  locked_until TIMESTAMPTZ,
+  heartbeat_at TIMESTAMPTZ,
+  last_error TEXT,
   started_at TIMESTAMPTZ,
   completed_at TIMESTAMPTZ,
   created_at TIMESTAMPTZ DEFAULT NOW()
@@ -85,25 +139,44 @@ CREATE TABLE public.sync_jobs (
 CREATE TABLE public.task_mappings (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   replication_id UUID REFERENCES public.list_replications(id) ON DELETE CASCADE,
-  clickup_task_id TEXT UNIQUE NOT NULL,
+  clickup_task_id TEXT NOT NULL, -- Checklist or checklist item ID for those entity types
+  entity_type TEXT CHECK (entity_type IN ('task', 'checklist', 'checklist_item')) DEFAULT 'task',
   monday_item_id TEXT,
   clickup_parent_id TEXT,
   monday_parent_id TEXT,
   task_data JSONB,
+  synced_values JSONB DEFAULT '{}',
   sync_status TEXT CHECK (sync_status IN ('pending', 'synced', 'updated', 'failed')) DEFAULT 'pending',
   last_synced_at TIMESTAMPTZ,
-  created_at TIMESTAMPTZ DEFAULT NOW()
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(replication_id, clickup_task_id) -- A task can be replicated to more than one board
+);
+
+-- Comment Mappings table (ClickUp comments and replies migrated as Monday updates)
+CREATE TABLE public.comment_mappings (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  replication_id UUID REFERENCES public.list_replications(id) ON DELETE CASCADE,
+  clickup_comment_id TEXT NOT NULL,
+  clickup_task_id TEXT NOT NULL,
+  clickup_parent_comment_id TEXT, -- Set for threaded replies
+  monday_item_id TEXT NOT NULL,
+  monday_update_id TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(replication_id, clickup_comment_id)
 );
 
 -- File Transfers table
 CREATE TABLE public.file_transfers (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   job_id UUID REFERENCES public.sync_jobs(id) ON DELETE CASCADE,
+  direction TEXT CHECK (direction IN ('clickup_to_monday', 'monday_to_clickup')) DEFAULT 'clickup_to_monday',
   clickup_task_id TEXT NOT NULL,
   monday_item_id TEXT,
+  monday_board_id TEXT, -- Scope for board-wide duplicate detection
   file_name TEXT NOT NULL,
   file_size BIGINT,
-  file_hash TEXT,
+  file_hash TEXT, -- SHA-256 of the content
+  version INTEGER DEFAULT 1, -- Incremented when a file is re-sent because its content changed
   status TEXT CHECK (status IN ('pending', 'transferred', 'skipped', 'failed')) DEFAULT 'pending',
   error_message TEXT,
   clickup_link TEXT,
@@ -111,6 +184,32 @@ CREATE TABLE public.file_transfers (
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Webhook Subscriptions table
+CREATE TABLE public.webhook_subscriptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  replication_id UUID REFERENCES public.list_replications(id) ON DELETE CASCADE,
+  service TEXT NOT NULL CHECK (service IN ('clickup', 'monday')),
+  webhook_id TEXT NOT NULL,
+  resource_id TEXT NOT NULL,
+  events JSONB DEFAULT '[]',
+  secret TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(service, webhook_id)
+);
+
+-- User Mappings table (manual ClickUp → Monday user overrides; the rest match by email)
+CREATE TABLE public.user_mappings (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  clickup_user_id TEXT NOT NULL,
+  clickup_email TEXT,
+  monday_user_id TEXT, -- NULL means never map this ClickUp user
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, clickup_user_id)
+);
+
 -- Activity Logs table
 CREATE TABLE public.activity_logs (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -123,30 +222,86 @@ CREATE TABLE public.activity_logs (
 
 -- Create indexes for performance
 CREATE INDEX idx_api_credentials_user_service ON public.api_credentials(user_id, service);
+CREATE INDEX idx_container_replications_user_id ON public.container_replications(user_id);
 CREATE INDEX idx_list_replications_user_id ON public.list_replications(user_id);
+CREATE INDEX idx_list_replications_container_id ON public.list_replications(container_replication_id);
 CREATE INDEX idx_field_mappings_replication_id ON public.field_mappings(replication_id);
+CREATE INDEX idx_status_mappings_replication_id ON public.status_mappings(replication_id);
 CREATE INDEX idx_sync_jobs_user_id ON public.sync_jobs(user_id);
+CREATE INDEX idx_sync_jobs_queue ON public.sync_jobs(status, run_after);
 CREATE INDEX idx_task_mappings_replication_id ON public.task_mappings(replication_id);
+CREATE INDEX idx_task_mappings_clickup_task_id ON public.task_mappings(clickup_task_id);
+CREATE INDEX idx_comment_mappings_task ON public.comment_mappings(replication_id, clickup_task_id);
 CREATE INDEX idx_file_transfers_job_id ON public.file_transfers(job_id);
+CREATE INDEX idx_file_transfers_item_hash ON public.file_transfers(monday_item_id, file_hash);
+CREATE INDEX idx_file_transfers_board_hash ON public.file_transfers(monday_board_id, file_hash);
+CREATE INDEX idx_webhook_subscriptions_resource ON public.webhook_subscriptions(service, resource_id);
+CREATE INDEX idx_user_mappings_user_id ON public.user_mappings(user_id);
 CREATE INDEX idx_activity_logs_user_id ON public.activity_logs(user_id);
 
 -- Enable Row Level Security
 ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.api_credentials ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.container_replications ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.list_replications ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.field_mappings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.status_mappings ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.sync_jobs ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.task_mappings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.comment_mappings ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.file_transfers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_mappings ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.activity_logs ENABLE ROW LEVEL SECURITY;
 
 -- Create RLS policies
 CREATE POLICY "Users can view own data" ON public.users FOR SELECT USING (auth.uid() = id);
 CREATE POLICY "Users can manage own credentials" ON public.api_credentials FOR ALL USING (auth.uid() = user_id);
+CREATE POLICY "Users can manage own container replications" ON public.container_replications FOR ALL USING (auth.uid() = user_id);
 CREATE POLICY "Users can manage own replications" ON public.list_replications FOR ALL USING (auth.uid() = user_id);
 CREATE POLICY "Users can manage own sync jobs" ON public.sync_jobs FOR ALL USING (auth.uid() = user_id);
+CREATE POLICY "Users can manage own webhooks" ON public.webhook_subscriptions FOR ALL USING (auth.uid() = user_id);
+CREATE POLICY "Users can manage own user mappings" ON public.user_mappings FOR ALL USING (auth.uid() = user_id);
 CREATE POLICY "Users can view own activity" ON public.activity_logs FOR SELECT USING (auth.uid() = user_id);
 
+-- Lease the oldest runnable job to a worker. Running jobs whose lease expired
+-- (the worker died) are picked up again, so jobs survive restarts. A job waits
+-- while another job holds a live lease on the same replication, so two workers
+-- never write to the same board.
+CREATE OR REPLACE FUNCTION public.claim_sync_job(p_worker_id TEXT, p_lease_seconds INTEGER)
+RETURNS SETOF public.sync_jobs AS $$
+BEGIN
+  -- Claims run one at a time so two workers can't both see a replication as idle
+  PERFORM pg_advisory_xact_lock(hashtext('claim_sync_job'));
+
+  RETURN QUERY
+  UPDATE public.sync_jobs
+  SET status = 'running',
+      locked_by = p_worker_id,
+      locked_until = NOW() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = NOW(),
+      attempts = attempts + 1,
+      started_at = COALESCE(started_at, NOW())
+  WHERE id = (
+    SELECT job.id FROM public.sync_jobs job
+    WHERE ((job.status = 'pending' AND job.run_after <= NOW())
+       OR (job.status = 'running' AND job.locked_until < NOW()))
+      AND NOT EXISTS (
+        SELECT 1 FROM public.sync_jobs other
+        WHERE other.id <> job.id
+          AND other.status = 'running'
+          AND other.locked_until >= NOW()
+          AND (other.replication_id = job.replication_id
+            OR other.container_replication_id = job.container_replication_id)
+      )
+    ORDER BY job.created_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
 -- Function to update timestamps
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCredentials } from '@/lib/db/supabase';
+import { ClickUpHierarchy } from '@/lib/hierarchy/hierarchy-browser';
+
+/**
+ * One level of the ClickUp hierarchy per call:
+ *   no params        → workspaces
+ *   ?workspaceId=<id> → spaces
+ *   ?spaceId=<id>     → folders and folderless lists
+ *   ?folderId=<id>    → lists
+ * Pass refresh=true to bypass the cache.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const workspaceId = searchParams.get('workspaceId');
+    const spaceId = searchParams.get('spaceId');
+    const folderId = searchParams.get('folderId');
+    const refresh = searchParams.get('refresh') === 'true';
+
+    const userId = 'temp-user-id'; // TODO: Get from session
+
+    const clickupCreds = await getCredentials(userId, 'clickup');
+
+    if (!clickupCreds?.access_token) {
+      return NextResponse.json(
+        { error: 'Missing ClickUp credentials. Please connect ClickUp.' },
+        { status: 401 }
+      );
+    }
+
+    const hierarchy = new ClickUpHierarchy(clickupCreds.access_token, userId);
+
+    const nodes = folderId
+      ? await hierarchy.getFolderLists(folderId, refresh)
+      : spaceId
+        ? await hierarchy.getSpaceContents(spaceId, refresh)
+        : workspaceId
+          ? await hierarchy.getSpaces(workspaceId, refresh)
+          : await hierarchy.getWorkspaces(refresh);
+
+    return NextResponse.json({ nodes });
+  } catch (error: any) {
+    console.error('Failed to load ClickUp hierarchy:', error);
+    return NextResponse.json(
+      { error: 'Failed to load ClickUp hierarchy', details: error.message },
+      { status: 500 }
+    );
+  }
+}
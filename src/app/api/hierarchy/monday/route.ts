@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCredentials } from '@/lib/db/supabase';
+import { MondayHierarchy } from '@/lib/hierarchy/hierarchy-browser';
+
+/**
+ * One level of the Monday hierarchy per call:
+ *   no params         → workspaces
+ *   ?workspaceId=<id> → folders and boards (flat, linked by parentId)
+ *   ?boardId=<id>     → groups
+ * Pass refresh=true to bypass the cache.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const workspaceId = searchParams.get('workspaceId');
+    const boardId = searchParams.get('boardId');
+    const refresh = searchParams.get('refresh') === 'true';
+
+    const userId = 'temp-user-id'; // TODO: Get from session
+
+    const mondayCreds = await getCredentials(userId, 'monday');
+
+    if (!mondayCreds?.access_token) {
+      return NextResponse.json(
+        { error: 'Missing Monday credentials. Please connect Monday.' },
+        { status: 401 }
+      );
+    }
+
+    const hierarchy = new MondayHierarchy(mondayCreds.access_token, userId);
+
+    const nodes = boardId
+      ? await hierarchy.getBoardGroups(boardId, refresh)
+      : workspaceId
+        ? await hierarchy.getWorkspaceContents(workspaceId, refresh)
+        : await hierarchy.getWorkspaces(refresh);
+
+    return NextResponse.json({ nodes });
+  } catch (error: any) {
+    console.error('Failed to load Monday hierarchy:', error);
+    return NextResponse.json(
+      { error: 'Failed to load Monday hierarchy', details: error.message },
+      { status: 500 }
+    );
+  }
+}
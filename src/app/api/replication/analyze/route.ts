@@ -1,16 +1,53 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCredentials } from '@/lib/db/supabase';
 import { ClickUpAPI } from '@/lib/api/clickup';
-import { FieldMapper } from '@/lib/replication/field-mapper';
+import { MondayAPI } from '@/lib/api/monday';
+import { FieldMapper, validateFieldMappingOverrides } from '@/lib/replication/field-mapper';
+import { ReplicationPlanner } from '@/lib/replication/replication-planner';
+import { validateGroupByOptions } from '@/lib/replication/group-layout';
+import type { ReplicationOptions } from '@/types';
 
 export async function POST(request: NextRequest) {
   try {
-    const { clickupListId } = await request.json();
+    const {
+      clickupListId,
+      mondayBoardName,
+      mode = 'full',
+      includeAttachments = true,
+      includeComments = false,
+      includeSubtasks = true,
+      preserveAssignees = true,
+      preserveDates = true,
+      includeTimeTracking = false,
+      descriptionTarget = 'update',
+      customFieldMapping,
+      mondayBoardId,
+      mondayGroupId,
+      groupBy = 'none',
+      groupByFieldId,
+    } = await request.json();
 
     if (!clickupListId) {
       return NextResponse.json({ error: 'clickupListId is required' }, { status: 400 });
     }
 
+    if (descriptionTarget !== 'update' && descriptionTarget !== 'column') {
+      return NextResponse.json(
+        { error: "descriptionTarget must be 'update' or 'column'" },
+        { status: 400 }
+      );
+    }
+
+    const mappingError = customFieldMapping ? validateFieldMappingOverrides(customFieldMapping) : null;
+    if (mappingError) {
+      return NextResponse.json({ error: mappingError }, { status: 400 });
+    }
+
+    const groupByError = validateGroupByOptions(groupBy, groupByFieldId, !!mondayGroupId);
+    if (groupByError) {
+      return NextResponse.json({ error: groupByError }, { status: 400 });
+    }
+
     const userId = 'temp-user-id'; // TODO: Get from session
 
     // Get credentials
@@ -23,15 +60,57 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Columns of the existing target board, so the plan shows which get reused
+    let existingColumns: any[] = [];
+    if (mondayBoardId) {
+      const mondayCreds = await getCredentials(userId, 'monday');
+      if (!mondayCreds?.access_token) {
+        return NextResponse.json(
+          { error: 'Missing Monday credentials. Please connect Monday.' },
+          { status: 401 }
+        );
+      }
+
+      const board = await new MondayAPI(mondayCreds.access_token).getBoard(parseInt(mondayBoardId));
+      existingColumns = board.columns || [];
+    }
+
     // Analyze list
     const clickup = new ClickUpAPI(clickupCreds.access_token);
     const list = await clickup.getList(clickupListId);
     const customFields = await clickup.getCustomFields(clickupListId);
-    const tasks = await clickup.getListTasks(clickupListId);
+    const tasks = await clickup.getAllListTasks(clickupListId);
 
     // Generate field mappings
     const fieldMappings = await FieldMapper.generateFieldMappings(customFields);
 
+    // Dry-run plan of what replication would create, without touching Monday
+    const options: ReplicationOptions = {
+      mode,
+      includeAttachments,
+      includeComments,
+      includeSubtasks,
+      preserveAssignees,
+      preserveDates,
+      includeTimeTracking,
+      descriptionTarget,
+      customFieldMapping,
+      mondayBoardId: mondayBoardId?.toString(),
+      mondayGroupId,
+      groupBy,
+      groupByFieldId,
+      dryRun: true,
+    };
+    const planner = new ReplicationPlanner(clickup);
+    const plan = await planner.buildPlan(
+      list,
+      customFields,
+      tasks,
+      mondayBoardName || list.name,
+      options,
+      existingColumns
+    );
+
     return NextResponse.json({
       list: {
         id: list.id,
@@ -44,8 +123,14 @@ export async function POST(request: NextRequest) {
         type: field.type,
         required: field.required,
       })),
-      suggestedMappings: fieldMappings,
+      // Starting point for the field-mapping editor
+      suggestedMappings: fieldMappings.map((mapping, index) => ({
+        ...mapping,
+        clickupFieldId: customFields[index].id,
+        compatibleColumnTypes: FieldMapper.getCompatibleColumnTypes(mapping.clickupFieldType),
+      })),
       tasksWithAttachments: tasks.filter((t) => t.attachments?.length > 0).length,
+      plan,
     });
   } catch (error: any) {
     console.error('List analysis error:', error);
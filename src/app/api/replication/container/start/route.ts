@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabase, getCredentials } from '@/lib/db/supabase';
+import { enqueueSyncJob } from '@/lib/sync/job-queue';
+import { validateGroupByOptions } from '@/lib/replication/group-layout';
+import { CHECKLIST_MODES } from '@/lib/replication/checklist-migrator';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      clickupContainerType,
+      clickupContainerId,
+      mondayWorkspaceId,
+      layout = 'board_per_list',
+      mode = 'full',
+      includeAttachments = true,
+      includeComments = false,
+      includeSubtasks = true,
+      preserveAssignees = true,
+      preserveDates = true,
+      includeTimeTracking = false,
+      descriptionTarget = 'update',
+      parallel = false,
+      maxParallel = 5,
+      groupBy = 'none',
+      groupByFieldId,
+      checklists = 'subitems',
+    } = body;
+
+    if (!clickupContainerId || !mondayWorkspaceId) {
+      return NextResponse.json(
+        { error: 'clickupContainerId and mondayWorkspaceId are required' },
+        { status: 400 }
+      );
+    }
+
+    if (clickupContainerType !== 'folder' && clickupContainerType !== 'space') {
+      return NextResponse.json(
+        { error: "clickupContainerType must be 'folder' or 'space'" },
+        { status: 400 }
+      );
+    }
+
+    if (layout !== 'board_per_list' && layout !== 'group_per_list') {
+      return NextResponse.json(
+        { error: "layout must be 'board_per_list' or 'group_per_list'" },
+        { status: 400 }
+      );
+    }
+
+    if (descriptionTarget !== 'update' && descriptionTarget !== 'column') {
+      return NextResponse.json(
+        { error: "descriptionTarget must be 'update' or 'column'" },
+        { status: 400 }
+      );
+    }
+
+    if (!CHECKLIST_MODES.includes(checklists)) {
+      return NextResponse.json(
+        { error: `checklists must be one of: ${CHECKLIST_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // With group_per_list each list already is a group
+    const groupByError = validateGroupByOptions(groupBy, groupByFieldId, layout === 'group_per_list');
+    if (groupByError) {
+      return NextResponse.json({ error: groupByError }, { status: 400 });
+    }
+
+    const userId = 'temp-user-id'; // TODO: Get from session
+
+    // Get credentials
+    const clickupCreds = await getCredentials(userId, 'clickup');
+    const mondayCreds = await getCredentials(userId, 'monday');
+
+    if (!clickupCreds?.access_token || !mondayCreds?.access_token) {
+      return NextResponse.json(
+        { error: 'Missing authentication credentials. Please connect both services.' },
+        { status: 401 }
+      );
+    }
+
+    // Create the container record; child list replications are created by the worker
+    const db = getServiceSupabase();
+    const { data: container, error: containerError } = (await db
+      .from('container_replications')
+      .insert({
+        user_id: userId,
+        clickup_container_type: clickupContainerType,
+        clickup_container_id: clickupContainerId,
+        layout,
+        monday_workspace_id: mondayWorkspaceId.toString(),
+        status: 'pending',
+        replication_mode: mode,
+        options: {
+          includeAttachments,
+          includeComments,
+          includeSubtasks,
+          preserveAssignees,
+          preserveDates,
+          includeTimeTracking,
+          descriptionTarget,
+          parallel,
+          maxParallel,
+          groupBy,
+          groupByFieldId,
+          checklists,
+        },
+      } as any)
+      .select()
+      .single()) as { data: any; error: any };
+
+    if (containerError || !container) {
+      throw new Error('Failed to create container replication record');
+    }
+
+    const jobId = await enqueueSyncJob({
+      userId,
+      replicationId: null,
+      containerReplicationId: container.id,
+      clickupListId: null,
+      mondayBoardId: null,
+      jobType: 'container_replication',
+    });
+
+    return NextResponse.json({
+      success: true,
+      containerReplicationId: container.id,
+      jobId,
+      message: `${clickupContainerType === 'folder' ? 'Folder' : 'Space'} replication queued`,
+    });
+  } catch (error: any) {
+    console.error('Failed to start container replication:', error);
+    return NextResponse.json(
+      { error: 'Failed to start container replication', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabase } from '@/lib/db/supabase';
+
+export async function GET(request: NextRequest) {
+  try {
+    const containerReplicationId = request.nextUrl.searchParams.get('containerReplicationId');
+
+    if (!containerReplicationId) {
+      return NextResponse.json({ error: 'containerReplicationId is required' }, { status: 400 });
+    }
+
+    const db = getServiceSupabase();
+
+    const { data: container, error: containerError } = (await db
+      .from('container_replications')
+      .select('*')
+      .eq('id', containerReplicationId)
+      .single()) as { data: any; error: any };
+
+    if (containerError || !container) {
+      return NextResponse.json({ error: 'Container replication not found' }, { status: 404 });
+    }
+
+    const { data: lists } = (await db
+      .from('list_replications')
+      .select('id, clickup_list_id, clickup_list_name, monday_board_id, monday_group_id, status, total_tasks, migrated_tasks, error_message')
+      .eq('container_replication_id', containerReplicationId)
+      .order('created_at')) as { data: any[] | null };
+
+    return NextResponse.json({
+      container: {
+        id: container.id,
+        type: container.clickup_container_type,
+        name: container.clickup_container_name,
+        layout: container.layout,
+        status: container.status,
+        mondayFolderId: container.monday_folder_id,
+        mondayBoardId: container.monday_board_id,
+        totalLists: container.total_lists,
+        completedLists: container.completed_lists,
+        failedLists: container.failed_lists,
+        totalTasks: container.total_tasks,
+        migratedTasks: container.migrated_tasks,
+        startedAt: container.started_at,
+        completedAt: container.completed_at,
+        errorMessage: container.error_message,
+      },
+      lists: (lists || []).map(list => ({
+        replicationId: list.id,
+        clickupListId: list.clickup_list_id,
+        name: list.clickup_list_name,
+        mondayBoardId: list.monday_board_id,
+        mondayGroupId: list.monday_group_id,
+        status: list.status,
+        totalTasks: list.total_tasks,
+        migratedTasks: list.migrated_tasks,
+        errorMessage: list.error_message,
+      })),
+    });
+  } catch (error: any) {
+    console.error('Container status check error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get container replication status', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabase, getCredentials } from '@/lib/db/supabase';
+import { MondayAPI } from '@/lib/api/monday';
+import { validateFieldMappingOverrides } from '@/lib/replication/field-mapper';
+
+/**
+ * A replication's applied field mappings and pending overrides, plus the
+ * board's columns to pick from when mapping onto an existing column
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const replicationId = request.nextUrl.searchParams.get('replicationId');
+
+    if (!replicationId) {
+      return NextResponse.json({ error: 'replicationId is required' }, { status: 400 });
+    }
+
+    const userId = 'temp-user-id'; // TODO: Get from session
+
+    const db = getServiceSupabase();
+    const { data: replication } = (await db
+      .from('list_replications')
+      .select('id, monday_board_id, options')
+      .eq('id', replicationId)
+      .eq('user_id', userId)
+      .single()) as { data: any };
+
+    if (!replication) {
+      return NextResponse.json({ error: 'Replication not found' }, { status: 404 });
+    }
+
+    const { data: mappings } = (await db
+      .from('field_mappings')
+      .select('*')
+      .eq('replication_id', replicationId)
+      .order('created_at')) as { data: any[] | null };
+
+    let mondayColumns: any[] = [];
+    const mondayCreds = await getCredentials(userId, 'monday');
+    if (replication.monday_board_id && mondayCreds?.access_token) {
+      const board = await new MondayAPI(mondayCreds.access_token).getBoard(parseInt(replication.monday_board_id));
+      mondayColumns = (board.columns || [])
+        .filter(column => !column.archived)
+        .map(column => ({ id: column.id, title: column.title, type: column.type }));
+    }
+
+    return NextResponse.json({
+      mappings: (mappings || []).map(mapping => ({
+        clickupFieldId: mapping.clickup_field_id,
+        clickupFieldName: mapping.clickup_field_name,
+        clickupFieldType: mapping.clickup_field_type,
+        mondayColumnId: mapping.monday_column_id,
+        mondayColumnName: mapping.monday_column_name,
+        mondayColumnType: mapping.monday_column_type,
+        mappingStatus: mapping.mapping_status,
+        merged: mapping.transformation_rule?.merge === true,
+      })),
+      customFieldMapping: replication.options?.customFieldMapping || {},
+      mondayColumns,
+    });
+  } catch (error: any) {
+    console.error('Failed to load field mappings:', error);
+    return NextResponse.json(
+      { error: 'Failed to load field mappings', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Save field-mapping overrides for a replication. Fields already mapped are
+ * remapped on the next run; values of tasks migrated before stay as they are.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { replicationId, customFieldMapping } = await request.json();
+
+    if (!replicationId || !customFieldMapping) {
+      return NextResponse.json(
+        { error: 'replicationId and customFieldMapping are required' },
+        { status: 400 }
+      );
+    }
+
+    const mappingError = validateFieldMappingOverrides(customFieldMapping);
+    if (mappingError) {
+      return NextResponse.json({ error: mappingError }, { status: 400 });
+    }
+
+    const userId = 'temp-user-id'; // TODO: Get from session
+
+    const db = getServiceSupabase();
+    const { data: replication } = (await db
+      .from('list_replications')
+      .select('id, status, options')
+      .eq('id', replicationId)
+      .eq('user_id', userId)
+      .single()) as { data: any };
+
+    if (!replication) {
+      return NextResponse.json({ error: 'Replication not found' }, { status: 404 });
+    }
+
+    if (['creating', 'migrating'].includes(replication.status)) {
+      return NextResponse.json(
+        { error: 'Pause the replication before changing its field mappings', status: replication.status },
+        { status: 409 }
+      );
+    }
+
+    const overrides = {
+      ...(replication.options?.customFieldMapping || {}),
+      ...customFieldMapping,
+    };
+
+    await (db
+      .from('list_replications')
+      .update({ options: { ...replication.options, customFieldMapping: overrides } } as any)
+      .eq('id', replicationId) as any);
+
+    // Dropping the applied mapping makes the next run map the field again with its override
+    await (db
+      .from('field_mappings')
+      .delete()
+      .eq('replication_id', replicationId)
+      .in('clickup_field_id', Object.keys(customFieldMapping)) as any);
+
+    return NextResponse.json({
+      success: true,
+      replicationId,
+      customFieldMapping: overrides,
+      message: 'Field mappings saved; resume the replication to apply them',
+    });
+  } catch (error: any) {
+    console.error('Failed to save field mappings:', error);
+    return NextResponse.json(
+      { error: 'Failed to save field mappings', details: error.message },
+      { status: 500 }
+    );
+  }
+}
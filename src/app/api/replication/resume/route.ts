@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabase, getCredentials } from '@/lib/db/supabase';
+import { enqueueSyncJob } from '@/lib/sync/job-queue';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { replicationId } = await request.json();
+
+    if (!replicationId) {
+      return NextResponse.json({ error: 'replicationId is required' }, { status: 400 });
+    }
+
+    const userId = 'temp-user-id'; // TODO: Get from session
+
+    // Load the replication to resume
+    const db = getServiceSupabase();
+    const { data: replication, error: repError } = (await db
+      .from('list_replications')
+      .select('id, status, direction, clickup_list_id, monday_board_id')
+      .eq('id', replicationId)
+      .eq('user_id', userId)
+      .single()) as { data: any; error: any };
+
+    if (repError || !replication) {
+      return NextResponse.json({ error: 'Replication not found' }, { status: 404 });
+    }
+
+    if (replication.status === 'completed') {
+      return NextResponse.json(
+        { error: 'Replication is already completed' },
+        { status: 409 }
+      );
+    }
+
+    // Get credentials
+    const clickupCreds = await getCredentials(userId, 'clickup');
+    const mondayCreds = await getCredentials(userId, 'monday');
+
+    if (!clickupCreds?.access_token || !mondayCreds?.access_token) {
+      return NextResponse.json(
+        { error: 'Missing authentication credentials. Please connect both services.' },
+        { status: 401 }
+      );
+    }
+
+    // The worker resumes the replication from its checkpoint, or from the items already copied
+    const jobId = await enqueueSyncJob({
+      userId,
+      replicationId: replication.id,
+      clickupListId: replication.clickup_list_id,
+      mondayBoardId: replication.monday_board_id,
+      jobType: replication.direction === 'monday_to_clickup' ? 'reverse_replication' : 'full_replication',
+    });
+
+    return NextResponse.json({
+      success: true,
+      replicationId: replication.id,
+      jobId,
+      message: 'List replication resume queued',
+    });
+  } catch (error: any) {
+    console.error('Failed to resume replication:', error);
+    return NextResponse.json(
+      { error: 'Failed to resume replication', details: error.message },
+      { status: 500 }
+    );
+  }
+}
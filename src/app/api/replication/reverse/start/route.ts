@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabase, getCredentials } from '@/lib/db/supabase';
+import { enqueueSyncJob } from '@/lib/sync/job-queue';
+import { MondayAPI } from '@/lib/api/monday';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      mondayBoardId,
+      clickupContainerType,
+      clickupContainerId,
+      clickupListName,
+      includeSubitems = true,
+      includeUpdates = true,
+      includeFiles = true,
+      preserveAssignees = true,
+    } = body;
+
+    if (!mondayBoardId || !clickupContainerId) {
+      return NextResponse.json(
+        { error: 'mondayBoardId and clickupContainerId are required' },
+        { status: 400 }
+      );
+    }
+
+    if (clickupContainerType !== 'folder' && clickupContainerType !== 'space') {
+      return NextResponse.json(
+        { error: "clickupContainerType must be 'folder' or 'space'" },
+        { status: 400 }
+      );
+    }
+
+    const userId = 'temp-user-id'; // TODO: Get from session
+
+    // Get credentials
+    const clickupCreds = await getCredentials(userId, 'clickup');
+    const mondayCreds = await getCredentials(userId, 'monday');
+
+    if (!clickupCreds?.access_token || !mondayCreds?.access_token) {
+      return NextResponse.json(
+        { error: 'Missing authentication credentials. Please connect both services.' },
+        { status: 401 }
+      );
+    }
+
+    let board: any;
+    try {
+      board = await new MondayAPI(mondayCreds.access_token).getBoard(parseInt(mondayBoardId));
+    } catch {
+      return NextResponse.json({ error: `Monday board ${mondayBoardId} not found` }, { status: 404 });
+    }
+
+    // Create replication record; the worker creates the list and records its ID
+    const db = getServiceSupabase();
+    const { data: replication, error: repError } = (await db
+      .from('list_replications')
+      .insert({
+        user_id: userId,
+        direction: 'monday_to_clickup',
+        clickup_list_name: clickupListName || board.name,
+        monday_board_id: board.id,
+        monday_board_name: board.name,
+        status: 'mapping',
+        options: {
+          clickupContainerType,
+          clickupContainerId,
+          includeSubitems,
+          includeUpdates,
+          includeFiles,
+          preserveAssignees,
+        },
+      } as any)
+      .select()
+      .single()) as { data: any; error: any };
+
+    if (repError || !replication) {
+      throw new Error('Failed to create replication record');
+    }
+
+    const jobId = await enqueueSyncJob({
+      userId,
+      replicationId: replication.id,
+      clickupListId: null,
+      mondayBoardId: board.id,
+      jobType: 'reverse_replication',
+    });
+
+    return NextResponse.json({
+      success: true,
+      replicationId: replication.id,
+      jobId,
+      message: 'Reverse replication queued',
+    });
+  } catch (error: any) {
+    console.error('Failed to start reverse replication:', error);
+    return NextResponse.json(
+      { error: 'Failed to start reverse replication', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { ListReplicator } from '@/lib/replication/list-replicator';
 import { getServiceSupabase, getCredentials } from '@/lib/db/supabase';
-import type { ReplicationOptions } from '@/types';
+import { enqueueSyncJob } from '@/lib/sync/job-queue';
+import { MondayAPI } from '@/lib/api/monday';
+import { validateGroupByOptions } from '@/lib/replication/group-layout';
+import { CHECKLIST_MODES } from '@/lib/replication/checklist-migrator';
+import { validateFieldMappingOverrides } from '@/lib/replication/field-mapper';
 
 export async function POST(request: NextRequest) {
   try {
@@ -15,15 +18,49 @@ export async function POST(request: NextRequest) {
       includeSubtasks = true,
       preserveAssignees = true,
       preserveDates = true,
+      includeTimeTracking = false,
+      descriptionTarget = 'update',
+      parallel = false,
+      maxParallel = 5,
+      customFieldMapping,
+      mondayBoardId,
+      mondayGroupId,
+      groupBy = 'none',
+      groupByFieldId,
+      checklists = 'subitems',
     } = body;
 
-    if (!clickupListId || !mondayBoardName) {
+    if (!clickupListId || (!mondayBoardName && !mondayBoardId)) {
       return NextResponse.json(
-        { error: 'clickupListId and mondayBoardName are required' },
+        { error: 'clickupListId and either mondayBoardName or mondayBoardId are required' },
         { status: 400 }
       );
     }
 
+    const mappingError = customFieldMapping ? validateFieldMappingOverrides(customFieldMapping) : null;
+    if (mappingError) {
+      return NextResponse.json({ error: mappingError }, { status: 400 });
+    }
+
+    if (descriptionTarget !== 'update' && descriptionTarget !== 'column') {
+      return NextResponse.json(
+        { error: "descriptionTarget must be 'update' or 'column'" },
+        { status: 400 }
+      );
+    }
+
+    if (!CHECKLIST_MODES.includes(checklists)) {
+      return NextResponse.json(
+        { error: `checklists must be one of: ${CHECKLIST_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const groupByError = validateGroupByOptions(groupBy, groupByFieldId, !!mondayGroupId);
+    if (groupByError) {
+      return NextResponse.json({ error: groupByError }, { status: 400 });
+    }
+
     const userId = 'temp-user-id'; // TODO: Get from session
 
     // Get credentials
@@ -37,13 +74,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create replication record
+    // Replicating into an existing board: make sure it and the chosen group exist
+    let targetBoard: any = null;
+    if (mondayBoardId) {
+      try {
+        targetBoard = await new MondayAPI(mondayCreds.access_token).getBoard(parseInt(mondayBoardId));
+      } catch {
+        return NextResponse.json({ error: `Monday board ${mondayBoardId} not found` }, { status: 404 });
+      }
+
+      if (mondayGroupId && !targetBoard.groups?.some((group: any) => group.id === mondayGroupId)) {
+        return NextResponse.json(
+          { error: `Group ${mondayGroupId} not found on board ${targetBoard.name}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Create replication record; with a target board the worker reuses it instead of creating one
     const db = getServiceSupabase();
     const { data: replication, error: repError } = (await db
       .from('list_replications')
       .insert({
         user_id: userId,
         clickup_list_id: clickupListId,
+        monday_board_id: targetBoard?.id || null,
+        monday_board_name: targetBoard?.name || mondayBoardName,
+        monday_group_id: targetBoard ? mondayGroupId || null : null,
         status: 'mapping',
         replication_mode: mode,
         options: {
@@ -52,6 +109,14 @@ export async function POST(request: NextRequest) {
           includeSubtasks,
           preserveAssignees,
           preserveDates,
+          includeTimeTracking,
+          descriptionTarget,
+          parallel,
+          maxParallel,
+          customFieldMapping,
+          groupBy,
+          groupByFieldId,
+          checklists,
         },
       } as any)
       .select()
@@ -61,37 +126,20 @@ export async function POST(request: NextRequest) {
       throw new Error('Failed to create replication record');
     }
 
-    // Start replication
-    const replicator = new ListReplicator(
-      clickupCreds.access_token,
-      mondayCreds.access_token,
-      replication.id,
-      userId
-    );
-
-    const options: ReplicationOptions = {
-      mode,
-      includeAttachments,
-      includeComments,
-      includeSubtasks,
-      preserveAssignees,
-      preserveDates,
-    };
-
-    // Run async without waiting (background job)
-    replicator
-      .replicate(clickupListId, mondayBoardName, options)
-      .then((result) => {
-        console.log('Replication completed:', result);
-      })
-      .catch((error) => {
-        console.error('Replication failed:', error);
-      });
+    // Queue the replication; the worker picks it up and survives restarts
+    const jobId = await enqueueSyncJob({
+      userId,
+      replicationId: replication.id,
+      clickupListId,
+      mondayBoardId: targetBoard?.id || null,
+      jobType: 'full_replication',
+    });
 
     return NextResponse.json({
       success: true,
       replicationId: replication.id,
-      message: 'List replication started',
+      jobId,
+      message: 'List replication queued',
     });
   } catch (error: any) {
     console.error('Failed to start replication:', error);
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabase } from '@/lib/db/supabase';
+import { saveStatusLabel } from '@/lib/replication/status-mapper';
+
+const KINDS = ['status', 'priority'];
+
+/**
+ * The ClickUp status and priority → Monday label mapping of a replication
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const replicationId = request.nextUrl.searchParams.get('replicationId');
+
+    if (!replicationId) {
+      return NextResponse.json({ error: 'replicationId is required' }, { status: 400 });
+    }
+
+    const userId = 'temp-user-id'; // TODO: Get from session
+
+    const db = getServiceSupabase();
+    const { data: replication } = (await db
+      .from('list_replications')
+      .select('id')
+      .eq('id', replicationId)
+      .eq('user_id', userId)
+      .single()) as { data: any };
+
+    if (!replication) {
+      return NextResponse.json({ error: 'Replication not found' }, { status: 404 });
+    }
+
+    const { data: rows } = (await db
+      .from('status_mappings')
+      .select('*')
+      .eq('replication_id', replicationId)
+      .order('clickup_order')) as { data: any[] | null };
+
+    const toLabel = (row: any) => ({
+      clickupValue: row.clickup_value,
+      clickupName: row.clickup_name,
+      clickupColor: row.clickup_color,
+      mondayColumnId: row.monday_column_id,
+      mondayLabel: row.monday_label,
+      mondayLabelIndex: row.monday_label_index,
+    });
+
+    return NextResponse.json({
+      statuses: (rows || []).filter(row => row.kind === 'status').map(toLabel),
+      priorities: (rows || []).filter(row => row.kind === 'priority').map(toLabel),
+    });
+  } catch (error: any) {
+    console.error('Failed to load status mappings:', error);
+    return NextResponse.json(
+      { error: 'Failed to load status mappings', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Rename the Monday label for one ClickUp status or priority; reusing
+ * another value's label merges the two
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { replicationId, kind = 'status', clickupValue, mondayLabel } = await request.json();
+
+    if (!replicationId || !clickupValue || !mondayLabel?.trim()) {
+      return NextResponse.json(
+        { error: 'replicationId, clickupValue and mondayLabel are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!KINDS.includes(kind)) {
+      return NextResponse.json(
+        { error: `kind must be one of: ${KINDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const userId = 'temp-user-id'; // TODO: Get from session
+
+    const db = getServiceSupabase();
+    const { data: replication } = (await db
+      .from('list_replications')
+      .select('id')
+      .eq('id', replicationId)
+      .eq('user_id', userId)
+      .single()) as { data: any };
+
+    if (!replication) {
+      return NextResponse.json({ error: 'Replication not found' }, { status: 404 });
+    }
+
+    const row = await saveStatusLabel(replicationId, kind, clickupValue.toString(), mondayLabel.trim());
+
+    return NextResponse.json({
+      success: true,
+      kind,
+      clickupValue: row.clickup_value,
+      mondayLabel: row.monday_label,
+      mondayLabelIndex: row.monday_label_index,
+      message: 'Applies to items written from now on; resume the replication or run an update sync to apply it',
+    });
+  } catch (error: any) {
+    console.error('Failed to save status mapping:', error);
+    return NextResponse.json(
+      { error: 'Failed to save status mapping', details: error.message },
+      { status: 500 }
+    );
+  }
+}
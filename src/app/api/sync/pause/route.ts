@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { transitionSyncJob } from '@/lib/sync/job-queue';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { jobId } = await request.json();
+
+    if (!jobId) {
+      return NextResponse.json({ error: 'jobId is required' }, { status: 400 });
+    }
+
+    const userId = 'temp-user-id'; // TODO: Get from session
+
+    // A running job stops after its current task; the worker then releases it
+    const transition = await transitionSyncJob(jobId, userId, ['pending', 'running'], 'paused');
+
+    if (!transition.ok) {
+      if (transition.reason === 'not_found') {
+        return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+      }
+
+      return NextResponse.json(
+        { error: `Cannot pause a job that is ${transition.status}`, status: transition.status },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      jobId,
+      status: transition.job.status,
+      message: 'Job paused',
+    });
+  } catch (error: any) {
+    console.error('Failed to pause job:', error);
+    return NextResponse.json(
+      { error: 'Failed to pause job', details: error.message },
+      { status: 500 }
+    );
+  }
+}
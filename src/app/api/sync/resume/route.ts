@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { transitionSyncJob } from '@/lib/sync/job-queue';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { jobId } = await request.json();
+
+    if (!jobId) {
+      return NextResponse.json({ error: 'jobId is required' }, { status: 400 });
+    }
+
+    const userId = 'temp-user-id'; // TODO: Get from session
+
+    // Back to the queue; the engines skip work the job already finished
+    const transition = await transitionSyncJob(jobId, userId, ['paused'], 'pending', {
+      unlockedOnly: true,
+    });
+
+    if (!transition.ok) {
+      if (transition.reason === 'not_found') {
+        return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+      }
+
+      const message = transition.reason === 'still_running'
+        ? 'Job is still stopping, try again shortly'
+        : `Cannot resume a job that is ${transition.status}`;
+
+      return NextResponse.json(
+        { error: message, status: transition.status },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      jobId,
+      status: transition.job.status,
+      message: 'Job resumed',
+    });
+  } catch (error: any) {
+    console.error('Failed to resume job:', error);
+    return NextResponse.json(
+      { error: 'Failed to resume job', details: error.message },
+      { status: 500 }
+    );
+  }
+}
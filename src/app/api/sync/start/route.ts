@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServiceSupabase, getCredentials } from '@/lib/db/supabase';
-import { FileSyncEngine } from '@/lib/sync/file-sync';
-import type { SyncOptions } from '@/types';
+import { getCredentials } from '@/lib/db/supabase';
+import { enqueueSyncJob } from '@/lib/sync/job-queue';
 
 export async function POST(request: NextRequest) {
   try {
@@ -11,10 +10,14 @@ export async function POST(request: NextRequest) {
       mondayBoardId,
       batchSize = 10,
       skipDuplicates = true,
+      duplicateScope = 'item',
       includeAttachments = true,
       includeComments = false,
       includeSubtasks = false,
       clickupLinkField,
+      direction = 'clickup_to_monday',
+      parallel = false,
+      maxParallel = 5,
     } = body;
 
     // Validate input
@@ -25,6 +28,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (direction !== 'clickup_to_monday' && direction !== 'monday_to_clickup') {
+      return NextResponse.json(
+        { error: "direction must be 'clickup_to_monday' or 'monday_to_clickup'" },
+        { status: 400 }
+      );
+    }
+
+    if (duplicateScope !== 'item' && duplicateScope !== 'board') {
+      return NextResponse.json(
+        { error: "duplicateScope must be 'item' or 'board'" },
+        { status: 400 }
+      );
+    }
+
     const userId = 'temp-user-id'; // TODO: Get from session
 
     // Get credentials
@@ -38,65 +55,31 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create sync job
-    const db = getServiceSupabase();
-    const { data: job, error: jobError } = (await db
-      .from('sync_jobs')
-      .insert({
-        user_id: userId,
-        clickup_list_id: clickupListId,
-        monday_board_id: mondayBoardId.toString(),
-        job_type: 'file_sync',
-        status: 'pending',
-        batch_size: batchSize,
-        options: {
-          skipDuplicates,
-          includeAttachments,
-          includeComments,
-          includeSubtasks,
-          clickupLinkField,
-        },
-        started_at: new Date().toISOString(),
-      } as any)
-      .select()
-      .single()) as { data: any; error: any };
-
-    if (jobError || !job) {
-      throw new Error('Failed to create sync job');
-    }
-
-    // Start sync in background
-    const syncOptions: SyncOptions = {
+    const jobId = await enqueueSyncJob({
+      userId,
+      replicationId: null,
+      clickupListId,
+      mondayBoardId: mondayBoardId.toString(),
+      jobType: 'file_sync',
       batchSize,
-      skipDuplicates,
-      includeAttachments,
-      includeComments,
-      includeSubtasks,
-      clickupLinkField,
-    };
-
-    // Run sync asynchronously
-    const syncEngine = new FileSyncEngine(
-      clickupCreds.access_token,
-      mondayCreds.access_token,
-      job.id,
-      userId
-    );
-
-    // Don't await - run in background
-    syncEngine
-      .syncFiles(clickupListId, parseInt(mondayBoardId), syncOptions)
-      .then((result) => {
-        console.log('Sync completed:', result);
-      })
-      .catch((error) => {
-        console.error('Sync failed:', error);
-      });
+      options: {
+        skipDuplicates,
+        duplicateScope,
+        includeAttachments,
+        includeComments,
+        includeSubtasks,
+        clickupLinkField,
+        direction,
+        parallel,
+        maxParallel,
+      },
+    });
 
+    // The worker picks the pending job up from the queue
     return NextResponse.json({
       success: true,
-      jobId: job.id,
-      message: 'File sync started',
+      jobId,
+      message: 'File sync queued',
     });
   } catch (error: any) {
     console.error('Sync start error:', error);
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabase, getCredentials } from '@/lib/db/supabase';
+import { enqueueSyncJob } from '@/lib/sync/job-queue';
+import type { UpdateSyncOptions } from '@/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      replicationId,
+      direction = 'both',
+      conflictStrategy = 'newest',
+      clickupTaskIds,
+    } = body;
+
+    if (!replicationId) {
+      return NextResponse.json({ error: 'replicationId is required' }, { status: 400 });
+    }
+
+    const userId = 'temp-user-id'; // TODO: Get from session
+
+    // Get credentials
+    const clickupCreds = await getCredentials(userId, 'clickup');
+    const mondayCreds = await getCredentials(userId, 'monday');
+
+    if (!clickupCreds?.access_token || !mondayCreds?.access_token) {
+      return NextResponse.json(
+        { error: 'Missing authentication credentials. Please connect both services.' },
+        { status: 401 }
+      );
+    }
+
+    const db = getServiceSupabase();
+    const { data: replication } = (await db
+      .from('list_replications')
+      .select('id, clickup_list_id, monday_board_id')
+      .eq('id', replicationId)
+      .eq('user_id', userId)
+      .single()) as { data: any };
+
+    if (!replication?.monday_board_id) {
+      return NextResponse.json(
+        { error: 'Replication not found or has no Monday board yet' },
+        { status: 404 }
+      );
+    }
+
+    const options: UpdateSyncOptions = {
+      direction,
+      conflictStrategy,
+      clickupTaskIds,
+    };
+
+    // A pending update sync for the replication is reused, merging its task IDs
+    const jobId = await enqueueSyncJob({
+      userId,
+      replicationId: replication.id,
+      clickupListId: replication.clickup_list_id,
+      mondayBoardId: replication.monday_board_id,
+      jobType: 'update_sync',
+      options,
+    });
+
+    // The worker picks the pending job up from the queue
+    return NextResponse.json({
+      success: true,
+      jobId,
+      message: 'Update sync queued',
+    });
+  } catch (error: any) {
+    console.error('Update sync start error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start update sync', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCredentials } from '@/lib/db/supabase';
+import { ClickUpAPI } from '@/lib/api/clickup';
+import { MondayAPI } from '@/lib/api/monday';
+import {
+  UserMapper,
+  saveUserMappingOverride,
+  deleteUserMappingOverride,
+} from '@/lib/replication/user-mapper';
+
+/**
+ * ClickUp members with the Monday user each one maps to, plus the Monday
+ * users available to pick from
+ */
+export async function GET() {
+  try {
+    const userId = 'temp-user-id'; // TODO: Get from session
+
+    const clickupCreds = await getCredentials(userId, 'clickup');
+    const mondayCreds = await getCredentials(userId, 'monday');
+
+    if (!clickupCreds?.access_token || !mondayCreds?.access_token) {
+      return NextResponse.json(
+        { error: 'Missing authentication credentials. Please connect both services.' },
+        { status: 401 }
+      );
+    }
+
+    const mapper = new UserMapper(
+      new ClickUpAPI(clickupCreds.access_token),
+      new MondayAPI(mondayCreds.access_token),
+      userId
+    );
+    const { matches, mondayUsers } = await mapper.getMatches();
+
+    return NextResponse.json({
+      matches,
+      mondayUsers: mondayUsers.map(user => ({
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        enabled: user.enabled,
+      })),
+      matchedCount: matches.filter(match => match.mondayUserId).length,
+    });
+  } catch (error: any) {
+    console.error('Failed to load user mappings:', error);
+    return NextResponse.json(
+      { error: 'Failed to load user mappings', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Override the match for one ClickUp user. mondayUserId: null keeps them unmapped.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { clickupUserId, mondayUserId, clickupEmail } = await request.json();
+
+    if (!clickupUserId || mondayUserId === undefined) {
+      return NextResponse.json(
+        { error: 'clickupUserId and mondayUserId are required (mondayUserId may be null)' },
+        { status: 400 }
+      );
+    }
+
+    const userId = 'temp-user-id'; // TODO: Get from session
+
+    await saveUserMappingOverride(
+      userId,
+      clickupUserId.toString(),
+      mondayUserId === null ? null : mondayUserId.toString(),
+      clickupEmail
+    );
+
+    return NextResponse.json({
+      success: true,
+      clickupUserId: clickupUserId.toString(),
+      mondayUserId: mondayUserId === null ? null : mondayUserId.toString(),
+    });
+  } catch (error: any) {
+    console.error('Failed to save user mapping:', error);
+    return NextResponse.json(
+      { error: 'Failed to save user mapping', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Remove an override so the user is matched by email again
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const clickupUserId = request.nextUrl.searchParams.get('clickupUserId');
+
+    if (!clickupUserId) {
+      return NextResponse.json({ error: 'clickupUserId is required' }, { status: 400 });
+    }
+
+    const userId = 'temp-user-id'; // TODO: Get from session
+
+    await deleteUserMappingOverride(userId, clickupUserId);
+
+    return NextResponse.json({ success: true, clickupUserId });
+  } catch (error: any) {
+    console.error('Failed to delete user mapping:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete user mapping', details: error.message },
+      { status: 500 }
+    );
+  }
+}
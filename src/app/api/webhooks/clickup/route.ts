@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabase, decryptToken } from '@/lib/db/supabase';
+import { verifyClickUpSignature } from '@/lib/webhooks/webhook-manager';
+import { handleClickUpEvent } from '@/lib/webhooks/event-handler';
+import type { ClickUpWebhookPayload } from '@/types/clickup';
+
+export async function POST(request: NextRequest) {
+  try {
+    // The signature covers the exact raw body, so read it before parsing
+    const rawBody = await request.text();
+    const payload = JSON.parse(rawBody) as ClickUpWebhookPayload;
+
+    if (!payload.webhook_id) {
+      return NextResponse.json({ error: 'webhook_id is required' }, { status: 400 });
+    }
+
+    const db = getServiceSupabase();
+    const { data: subscription } = (await db
+      .from('webhook_subscriptions')
+      .select('*')
+      .eq('service', 'clickup')
+      .eq('webhook_id', payload.webhook_id)
+      .single()) as { data: any };
+
+    if (!subscription?.secret) {
+      return NextResponse.json({ error: 'Unknown webhook' }, { status: 404 });
+    }
+
+    const signature = request.headers.get('x-signature');
+    if (!verifyClickUpSignature(rawBody, signature, decryptToken(subscription.secret))) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    const result = await handleClickUpEvent(subscription, payload);
+    console.log(`ClickUp webhook ${payload.event} for task ${payload.task_id}: ${result.action}`);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: any) {
+    console.error('ClickUp webhook error:', error);
+    return NextResponse.json(
+      { error: 'Failed to process ClickUp webhook', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabase } from '@/lib/db/supabase';
+import { verifyMondayAuthorization } from '@/lib/webhooks/webhook-manager';
+import { handleMondayEvent } from '@/lib/webhooks/event-handler';
+import type { MondayWebhookPayload } from '@/types/monday';
+
+export async function POST(request: NextRequest) {
+  try {
+    const payload = (await request.json()) as MondayWebhookPayload;
+
+    // Monday verifies a new webhook URL by expecting its challenge echoed back
+    if (payload.challenge) {
+      return NextResponse.json({ challenge: payload.challenge });
+    }
+
+    // Without the secret nothing can be verified, so no event is accepted
+    const signingSecret = process.env.MONDAY_SIGNING_SECRET;
+    if (!signingSecret) {
+      console.error('MONDAY_SIGNING_SECRET is not set; rejecting Monday webhook');
+      return NextResponse.json({ error: 'Monday webhooks are not configured' }, { status: 503 });
+    }
+
+    if (!verifyMondayAuthorization(request.headers.get('authorization'), signingSecret)) {
+      return NextResponse.json({ error: 'Invalid authorization' }, { status: 401 });
+    }
+
+    if (!payload.event?.boardId) {
+      return NextResponse.json({ error: 'event.boardId is required' }, { status: 400 });
+    }
+
+    const db = getServiceSupabase();
+    const { data: subscription } = (await db
+      .from('webhook_subscriptions')
+      .select('*')
+      .eq('service', 'monday')
+      .eq('resource_id', payload.event.boardId.toString())
+      .limit(1)
+      .maybeSingle()) as { data: any };
+
+    if (!subscription) {
+      return NextResponse.json({ error: 'Unknown webhook' }, { status: 404 });
+    }
+
+    const result = await handleMondayEvent(subscription, payload);
+    console.log(`Monday webhook ${payload.event.type} for item ${payload.event.pulseId}: ${result.action}`);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: any) {
+    console.error('Monday webhook error:', error);
+    return NextResponse.json(
+      { error: 'Failed to process Monday webhook', details: error.message },
+      { status: 500 }
+    );
+  }
+}
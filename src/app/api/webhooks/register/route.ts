@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCredentials } from '@/lib/db/supabase';
+import { WebhookManager } from '@/lib/webhooks/webhook-manager';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { replicationId } = await request.json();
+
+    if (!replicationId) {
+      return NextResponse.json({ error: 'replicationId is required' }, { status: 400 });
+    }
+
+    const userId = 'temp-user-id'; // TODO: Get from session
+
+    // Get credentials
+    const clickupCreds = await getCredentials(userId, 'clickup');
+    const mondayCreds = await getCredentials(userId, 'monday');
+
+    if (!clickupCreds?.access_token || !mondayCreds?.access_token) {
+      return NextResponse.json(
+        { error: 'Missing authentication credentials. Please connect both services.' },
+        { status: 401 }
+      );
+    }
+
+    const manager = new WebhookManager(
+      clickupCreds.access_token,
+      mondayCreds.access_token,
+      userId
+    );
+
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+    const webhooks = await manager.register(
+      replicationId,
+      appUrl,
+      clickupCreds.workspace_id || undefined
+    );
+
+    return NextResponse.json({ success: true, ...webhooks });
+  } catch (error: any) {
+    console.error('Webhook registration error:', error);
+    return NextResponse.json(
+      { error: 'Failed to register webhooks', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const replicationId = request.nextUrl.searchParams.get('replicationId');
+
+    if (!replicationId) {
+      return NextResponse.json({ error: 'replicationId is required' }, { status: 400 });
+    }
+
+    const userId = 'temp-user-id'; // TODO: Get from session
+
+    const clickupCreds = await getCredentials(userId, 'clickup');
+    const mondayCreds = await getCredentials(userId, 'monday');
+
+    if (!clickupCreds?.access_token || !mondayCreds?.access_token) {
+      return NextResponse.json(
+        { error: 'Missing authentication credentials. Please connect both services.' },
+        { status: 401 }
+      );
+    }
+
+    const manager = new WebhookManager(
+      clickupCreds.access_token,
+      mondayCreds.access_token,
+      userId
+    );
+    const removed = await manager.unregister(replicationId);
+
+    return NextResponse.json({ success: true, removed });
+  } catch (error: any) {
+    console.error('Webhook removal error:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove webhooks', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,308 @@
+'use client';
+
+import { useState } from 'react';
+import type { ChecklistMode, FieldMappingAction, FieldMappingOverride, GroupByOption } from '@/types';
+import type { MondayColumnType } from '@/types/monday';
+
+interface SuggestedMapping {
+  clickupFieldId: string;
+  clickupField: string;
+  clickupFieldType: string;
+  mondayColumn: string;
+  mondayColumnType: MondayColumnType;
+  compatibleColumnTypes: MondayColumnType[];
+}
+
+interface Analysis {
+  list: { id: string; name: string; taskCount: number };
+  suggestedMappings: SuggestedMapping[];
+  plan: {
+    columns: { title: string; type: string; existingColumnId?: string }[];
+    groups: string[];
+  };
+}
+
+const ACTION_LABELS: Record<FieldMappingAction, string> = {
+  create: 'Create column',
+  skip: 'Skip field',
+  merge: 'Merge into text column',
+  existing: 'Use existing column',
+};
+
+export default function Replicate() {
+  const [clickupListId, setClickupListId] = useState('');
+  const [mondayBoardName, setMondayBoardName] = useState('');
+  const [mondayBoardId, setMondayBoardId] = useState('');
+  const [mondayGroupId, setMondayGroupId] = useState('');
+  const [groupBy, setGroupBy] = useState<GroupByOption>('none');
+  const [groupByFieldId, setGroupByFieldId] = useState('');
+  const [checklists, setChecklists] = useState<ChecklistMode>('subitems');
+  const [analysis, setAnalysis] = useState<Analysis | null>(null);
+  const [overrides, setOverrides] = useState<Record<string, FieldMappingOverride>>({});
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const post = async (url: string, body: any) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.details || data.error);
+    }
+    return data;
+  };
+
+  const analyze = async () => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const data = await post('/api/replication/analyze', {
+        clickupListId,
+        mondayBoardName,
+        mondayBoardId: mondayBoardId || undefined,
+        mondayGroupId: mondayGroupId || undefined,
+        groupBy,
+        groupByFieldId: groupByFieldId || undefined,
+        customFieldMapping: overrides,
+      });
+      setAnalysis(data);
+      if (!mondayBoardName) setMondayBoardName(data.list.name);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const start = async () => {
+    setBusy(true);
+    setError(null);
+
+    try {
+      const data = await post('/api/replication/start', {
+        clickupListId,
+        mondayBoardName: mondayBoardName || analysis?.list.name,
+        mondayBoardId: mondayBoardId || undefined,
+        mondayGroupId: mondayGroupId || undefined,
+        groupBy,
+        groupByFieldId: groupByFieldId || undefined,
+        checklists,
+        customFieldMapping: overrides,
+      });
+      setMessage(`Replication queued (replication ${data.replicationId}, job ${data.jobId})`);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const setOverride = (mapping: SuggestedMapping, changes: Partial<FieldMappingOverride>) => {
+    setOverrides(current => {
+      const next = {
+        ...current,
+        [mapping.clickupFieldId]: {
+          ...(current[mapping.clickupFieldId] || { action: 'create' as FieldMappingAction }),
+          ...changes,
+        },
+      };
+
+      // Back to the suggestion: no override needed
+      const override = next[mapping.clickupFieldId];
+      if (override.action === 'create' && !override.columnTitle
+        && (!override.columnType || override.columnType === mapping.mondayColumnType)) {
+        delete next[mapping.clickupFieldId];
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="container mx-auto p-8">
+      <h1 className="text-3xl font-bold mb-8">List Replication</h1>
+
+      <div className="bg-white rounded-lg shadow p-6 mb-8">
+        <h2 className="text-xl font-semibold mb-4">1. Choose a list</h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          <input
+            className="border rounded px-3 py-2"
+            placeholder="ClickUp list ID"
+            value={clickupListId}
+            onChange={e => setClickupListId(e.target.value)}
+          />
+          <input
+            className="border rounded px-3 py-2"
+            placeholder="Monday board name (defaults to the list name)"
+            value={mondayBoardName}
+            disabled={!!mondayBoardId}
+            onChange={e => setMondayBoardName(e.target.value)}
+          />
+          <input
+            className="border rounded px-3 py-2"
+            placeholder="Existing Monday board ID (optional)"
+            value={mondayBoardId}
+            onChange={e => setMondayBoardId(e.target.value)}
+          />
+          <input
+            className="border rounded px-3 py-2"
+            placeholder="Group ID on that board (optional)"
+            value={mondayGroupId}
+            disabled={!mondayBoardId || groupBy !== 'none'}
+            onChange={e => setMondayGroupId(e.target.value)}
+          />
+          <select
+            className="border rounded px-3 py-2"
+            value={groupBy}
+            onChange={e => setGroupBy(e.target.value as GroupByOption)}
+          >
+            <option value="none">One group for all items</option>
+            <option value="status">Group by status</option>
+            <option value="tag">Group by tag</option>
+            <option value="assignee">Group by assignee</option>
+            <option value="dropdown">Group by dropdown field</option>
+          </select>
+          {groupBy === 'dropdown' && (
+            <select
+              className="border rounded px-3 py-2"
+              value={groupByFieldId}
+              onChange={e => setGroupByFieldId(e.target.value)}
+            >
+              <option value="">{analysis ? 'Choose a dropdown field' : 'Analyze to list dropdown fields'}</option>
+              {analysis?.suggestedMappings
+                .filter(mapping => mapping.clickupFieldType === 'drop_down')
+                .map(mapping => (
+                  <option key={mapping.clickupFieldId} value={mapping.clickupFieldId}>{mapping.clickupField}</option>
+                ))}
+            </select>
+          )}
+        </div>
+        <button
+          className="bg-blue-600 text-white rounded px-4 py-2 disabled:opacity-50"
+          disabled={!clickupListId || busy}
+          onClick={analyze}
+        >
+          {analysis ? 'Re-analyze' : 'Analyze'}
+        </button>
+      </div>
+
+      {analysis && (
+        <div className="bg-white rounded-lg shadow mb-8">
+          <div className="px-6 py-4 border-b">
+            <h2 className="text-xl font-semibold">2. Review field mappings</h2>
+            <p className="text-sm text-gray-500">
+              {analysis.list.name}: {analysis.list.taskCount} tasks. Re-analyze to see the updated plan.
+            </p>
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="px-6 py-2">ClickUp field</th>
+                <th className="px-6 py-2">Action</th>
+                <th className="px-6 py-2">Column type</th>
+                <th className="px-6 py-2">Column title / ID</th>
+              </tr>
+            </thead>
+            <tbody>
+              {analysis.suggestedMappings.map(mapping => {
+                const override = overrides[mapping.clickupFieldId];
+                const action = override?.action || 'create';
+
+                return (
+                  <tr key={mapping.clickupFieldId} className="border-b">
+                    <td className="px-6 py-2">
+                      {mapping.clickupField}
+                      <span className="text-gray-400 ml-2">{mapping.clickupFieldType}</span>
+                    </td>
+                    <td className="px-6 py-2">
+                      <select
+                        className="border rounded px-2 py-1"
+                        value={action}
+                        onChange={e => setOverride(mapping, {
+                          action: e.target.value as FieldMappingAction,
+                          columnType: undefined, // Types differ per action
+                        })}
+                      >
+                        {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-6 py-2">
+                      {(action === 'create' || action === 'merge') && (
+                        <select
+                          className="border rounded px-2 py-1"
+                          value={override?.columnType || (action === 'merge' ? 'long-text' : mapping.mondayColumnType)}
+                          onChange={e => setOverride(mapping, { columnType: e.target.value as MondayColumnType })}
+                        >
+                          {(action === 'merge' ? ['long-text', 'text'] : mapping.compatibleColumnTypes).map(type => (
+                            <option key={type} value={type}>{type}</option>
+                          ))}
+                        </select>
+                      )}
+                    </td>
+                    <td className="px-6 py-2">
+                      {action === 'existing' ? (
+                        <input
+                          className="border rounded px-2 py-1"
+                          placeholder="Monday column ID"
+                          value={override?.mondayColumnId || ''}
+                          onChange={e => setOverride(mapping, { mondayColumnId: e.target.value })}
+                        />
+                      ) : action !== 'skip' && (
+                        <input
+                          className="border rounded px-2 py-1"
+                          placeholder={action === 'merge' ? 'Shared column title' : mapping.mondayColumn}
+                          value={override?.columnTitle || ''}
+                          onChange={e => setOverride(mapping, { columnTitle: e.target.value || undefined })}
+                        />
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <div className="px-6 py-4 text-sm text-gray-500">
+            Planned columns: {analysis.plan.columns
+              .map(column => `${column.title} (${column.type}${column.existingColumnId ? ', existing' : ''})`)
+              .join(', ') || 'none'}
+            {analysis.plan.groups.length > 0 && (
+              <div className="mt-1">Groups: {analysis.plan.groups.join(', ')}</div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {analysis && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-xl font-semibold mb-4">3. Replicate</h2>
+          <select
+            className="border rounded px-3 py-2 mr-4"
+            value={checklists}
+            onChange={e => setChecklists(e.target.value as ChecklistMode)}
+          >
+            <option value="subitems">Checklists as subitems</option>
+            <option value="update">Checklists as an update</option>
+            <option value="none">Skip checklists</option>
+          </select>
+          <button
+            className="bg-blue-600 text-white rounded px-4 py-2 disabled:opacity-50"
+            disabled={busy}
+            onClick={start}
+          >
+            Start replication
+          </button>
+        </div>
+      )}
+
+      {message && <p className="mt-6 text-green-700">{message}</p>}
+      {error && <p className="mt-6 text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -1,16 +1,33 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import { RateLimiter, ExponentialBackoff, handleRateLimitResponse } from '@/lib/utils/rate-limiter';
 import type {
+  ClickUpSpace,
+  ClickUpFolder,
   ClickUpList,
   ClickUpTask,
   ClickUpTasksResponse,
+  ClickUpTaskUpdate,
+  ClickUpTaskCreate,
   ClickUpCustomField,
+  ClickUpCustomFieldCreate,
   ClickUpComment,
   ClickUpCommentsResponse,
+  ClickUpTimeEntry,
+  ClickUpTrackedTimeResponse,
   ClickUpWorkspace,
+  ClickUpWebhook,
+  ClickUpWebhookEvent,
   ClickUpError,
 } from '@/types/clickup';
 
+export interface ListTasksOptions {
+  includeClosed?: boolean;
+  page?: number;
+  orderBy?: string;
+  reverse?: boolean;
+  includeSubtasks?: boolean;
+}
+
 export class ClickUpAPI {
   private client: AxiosInstance;
   private rateLimiter: RateLimiter;
@@ -65,14 +82,13 @@ export class ClickUpAPI {
   }
 
   private async makeRequest<T>(fn: () => Promise<T>): Promise<T> {
-    await this.rateLimiter.waitForReset();
+    await this.rateLimiter.acquire();
 
     const result = await this.backoff.execute(
       fn,
       ['ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND']
     );
 
-    this.rateLimiter.recordRequest();
     return result;
   }
 
@@ -91,6 +107,39 @@ export class ClickUpAPI {
     });
   }
 
+  // Hierarchy methods
+  async getSpaces(teamId: string): Promise<ClickUpSpace[]> {
+    return this.makeRequest(async () => {
+      const { data } = await this.client.get(`/team/${teamId}/space`, {
+        params: { archived: false },
+      });
+      return data.spaces as ClickUpSpace[];
+    });
+  }
+
+  async getSpace(spaceId: string): Promise<ClickUpSpace> {
+    return this.makeRequest(async () => {
+      const { data } = await this.client.get(`/space/${spaceId}`);
+      return data as ClickUpSpace;
+    });
+  }
+
+  async getSpaceFolders(spaceId: string): Promise<ClickUpFolder[]> {
+    return this.makeRequest(async () => {
+      const { data } = await this.client.get(`/space/${spaceId}/folder`, {
+        params: { archived: false },
+      });
+      return data.folders as ClickUpFolder[];
+    });
+  }
+
+  async getFolder(folderId: string): Promise<ClickUpFolder> {
+    return this.makeRequest(async () => {
+      const { data } = await this.client.get(`/folder/${folderId}`);
+      return data as ClickUpFolder;
+    });
+  }
+
   // List methods
   async getList(listId: string): Promise<ClickUpList> {
     return this.makeRequest(async () => {
@@ -99,6 +148,16 @@ export class ClickUpAPI {
     });
   }
 
+  /**
+   * Create a list in a folder, or folderless in a space
+   */
+  async createList(containerType: 'folder' | 'space', containerId: string, name: string): Promise<ClickUpList> {
+    return this.makeRequest(async () => {
+      const { data } = await this.client.post(`/${containerType}/${containerId}/list`, { name });
+      return data as ClickUpList;
+    });
+  }
+
   async getFolderLists(folderId: string): Promise<ClickUpList[]> {
     return this.makeRequest(async () => {
       const { data } = await this.client.get(`/folder/${folderId}/list`);
@@ -116,14 +175,19 @@ export class ClickUpAPI {
   // Task methods
   async getListTasks(
     listId: string,
-    options: {
-      includeClosed?: boolean;
-      page?: number;
-      orderBy?: string;
-      reverse?: boolean;
-      includeSubtasks?: boolean;
-    } = {}
+    options: ListTasksOptions = {}
   ): Promise<ClickUpTask[]> {
+    const { tasks } = await this.getListTasksPage(listId, options);
+    return tasks;
+  }
+
+  /**
+   * Fetch a single page of tasks (ClickUp returns up to 100 tasks per page)
+   */
+  async getListTasksPage(
+    listId: string,
+    options: ListTasksOptions = {}
+  ): Promise<ClickUpTasksResponse> {
     return this.makeRequest(async () => {
       const { data } = await this.client.get<ClickUpTasksResponse>(`/list/${listId}/task`, {
         params: {
@@ -136,10 +200,51 @@ export class ClickUpAPI {
           include_markdown_description: true,
         },
       });
-      return data.tasks;
+      return data;
     });
   }
 
+  /**
+   * Iterate over every task in a list, fetching pages lazily until last_page
+   */
+  async *iterateListTasks(
+    listId: string,
+    options: Omit<ListTasksOptions, 'page'> = {}
+  ): AsyncGenerator<ClickUpTask[], void, undefined> {
+    let page = 0;
+
+    while (true) {
+      const { tasks, last_page } = await this.getListTasksPage(listId, { ...options, page });
+
+      if (tasks.length > 0) {
+        yield tasks;
+      }
+
+      // Older API responses omit last_page, so an empty page also ends the walk
+      if (last_page || tasks.length === 0) {
+        return;
+      }
+
+      page++;
+    }
+  }
+
+  /**
+   * Fetch all tasks in a list across every page
+   */
+  async getAllListTasks(
+    listId: string,
+    options: Omit<ListTasksOptions, 'page'> = {}
+  ): Promise<ClickUpTask[]> {
+    const allTasks: ClickUpTask[] = [];
+
+    for await (const tasks of this.iterateListTasks(listId, options)) {
+      allTasks.push(...tasks);
+    }
+
+    return allTasks;
+  }
+
   async getTask(taskId: string, includeSubtasks: boolean = true): Promise<ClickUpTask> {
     return this.makeRequest(async () => {
       const { data } = await this.client.get<ClickUpTask>(`/task/${taskId}`, {
@@ -154,8 +259,22 @@ export class ClickUpAPI {
     });
   }
 
+  async createTask(listId: string, task: ClickUpTaskCreate): Promise<ClickUpTask> {
+    return this.makeRequest(async () => {
+      const { data } = await this.client.post<ClickUpTask>(`/list/${listId}/task`, task);
+      return data;
+    });
+  }
+
+  async updateTask(taskId: string, updates: ClickUpTaskUpdate): Promise<ClickUpTask> {
+    return this.makeRequest(async () => {
+      const { data } = await this.client.put<ClickUpTask>(`/task/${taskId}`, updates);
+      return data;
+    });
+  }
+
   async getTasksWithAttachments(listId: string): Promise<ClickUpTask[]> {
-    const tasks = await this.getListTasks(listId, { includeClosed: true });
+    const tasks = await this.getAllListTasks(listId, { includeClosed: true });
 
     // Filter for tasks that have attachments
     return tasks.filter(task => task.attachments && task.attachments.length > 0);
@@ -169,6 +288,25 @@ export class ClickUpAPI {
     });
   }
 
+  async createCustomField(listId: string, field: ClickUpCustomFieldCreate): Promise<ClickUpCustomField> {
+    return this.makeRequest(async () => {
+      const { data } = await this.client.post(`/list/${listId}/field`, field);
+      return (data.field || data) as ClickUpCustomField;
+    });
+  }
+
+  async setCustomFieldValue(taskId: string, fieldId: string, value: any): Promise<void> {
+    return this.makeRequest(async () => {
+      await this.client.post(`/task/${taskId}/field/${fieldId}`, { value });
+    });
+  }
+
+  async removeCustomFieldValue(taskId: string, fieldId: string): Promise<void> {
+    return this.makeRequest(async () => {
+      await this.client.delete(`/task/${taskId}/field/${fieldId}`);
+    });
+  }
+
   // Comment methods
   async getTaskComments(taskId: string): Promise<ClickUpComment[]> {
     return this.makeRequest(async () => {
@@ -177,6 +315,26 @@ export class ClickUpAPI {
     });
   }
 
+  /**
+   * Threaded replies to a comment, oldest first
+   */
+  async getCommentReplies(commentId: string): Promise<ClickUpComment[]> {
+    return this.makeRequest(async () => {
+      const { data } = await this.client.get<ClickUpCommentsResponse>(`/comment/${commentId}/reply`);
+      return [...(data.comments || [])].sort((a, b) => parseInt(a.date) - parseInt(b.date));
+    });
+  }
+
+  async createCommentReply(commentId: string, commentText: string): Promise<ClickUpComment> {
+    return this.makeRequest(async () => {
+      const { data } = await this.client.post(`/comment/${commentId}/reply`, {
+        comment_text: commentText,
+        notify_all: false,
+      });
+      return data as ClickUpComment;
+    });
+  }
+
   async createTaskComment(taskId: string, commentText: string, notifyAll: boolean = false): Promise<ClickUpComment> {
     return this.makeRequest(async () => {
       const { data } = await this.client.post(`/task/${taskId}/comment`, {
@@ -187,6 +345,27 @@ export class ClickUpAPI {
     });
   }
 
+  // Time tracking methods
+  /**
+   * Every user's tracked time on a task, one entry per interval, oldest first
+   */
+  async getTaskTimeEntries(taskId: string): Promise<ClickUpTimeEntry[]> {
+    return this.makeRequest(async () => {
+      const { data } = await this.client.get<ClickUpTrackedTimeResponse>(`/task/${taskId}/time`);
+
+      return (data.data || [])
+        .flatMap(tracked => tracked.intervals.map(interval => ({
+          id: interval.id,
+          user: tracked.user,
+          start: interval.start,
+          end: interval.end,
+          duration: parseInt(interval.time) || 0,
+          source: interval.source,
+        })))
+        .sort((a, b) => parseInt(a.start) - parseInt(b.start));
+    });
+  }
+
   // Attachment methods
   async downloadAttachment(url: string): Promise<Buffer> {
     return this.makeRequest(async () => {
@@ -212,6 +391,38 @@ export class ClickUpAPI {
     });
   }
 
+  // Webhook methods
+  async createWebhook(
+    teamId: string,
+    endpoint: string,
+    events: ClickUpWebhookEvent[],
+    location: { listId?: string; folderId?: string; spaceId?: string } = {}
+  ): Promise<ClickUpWebhook> {
+    return this.makeRequest(async () => {
+      const { data } = await this.client.post(`/team/${teamId}/webhook`, {
+        endpoint,
+        events,
+        list_id: location.listId,
+        folder_id: location.folderId,
+        space_id: location.spaceId,
+      });
+      return data.webhook as ClickUpWebhook;
+    });
+  }
+
+  async getWebhooks(teamId: string): Promise<ClickUpWebhook[]> {
+    return this.makeRequest(async () => {
+      const { data } = await this.client.get(`/team/${teamId}/webhook`);
+      return data.webhooks as ClickUpWebhook[];
+    });
+  }
+
+  async deleteWebhook(webhookId: string): Promise<void> {
+    return this.makeRequest(async () => {
+      await this.client.delete(`/webhook/${webhookId}`);
+    });
+  }
+
   // Utility methods
   getRateLimitStatus() {
     return {
@@ -6,14 +6,69 @@ import { RateLimiter, ExponentialBackoff } from '@/lib/utils/rate-limiter';
 import type {
   MondayBoard,
   MondayColumn,
+  MondayFolder,
+  MondayGroup,
   MondayItem,
+  MondayUser,
   MondayColumnType,
   MondayUpdate,
   MondayAsset,
   GraphQLResponse,
   MondayComplexityInfo,
+  MondayItemsPage,
+  MondayItemsQueryParams,
+  MondayWebhook,
+  MondayWebhookEvent,
+  MondayWorkspace,
 } from '@/types/monday';
 
+// Item fields shared by items_page and next_items_page queries
+const ITEM_FIELDS = `
+  id
+  name
+  state
+  created_at
+  updated_at
+  creator_id
+  board {
+    id
+  }
+  group {
+    id
+    title
+  }
+  column_values {
+    id
+    title
+    type
+    value
+    text
+  }
+`;
+
+const ASSET_FIELDS = `
+  id
+  name
+  url
+  public_url
+  file_extension
+  file_size
+  created_at
+`;
+
+const UPDATE_FIELDS = `
+  id
+  body
+  text_body
+  created_at
+  updated_at
+  creator {
+    id
+    name
+    email
+  }
+`;
+
 export class MondayAPI {
   private client: GraphQLClient;
   private apiToken: string;
@@ -45,7 +100,7 @@ export class MondayAPI {
   }
 
   private async makeRequest<T>(query: RequestDocument, variables?: any): Promise<T> {
-    await this.rateLimiter.waitForReset();
+    await this.rateLimiter.acquire();
 
     // Check complexity budget
     if (this.complexityUsed > this.complexityBudget * 0.9) {
@@ -79,7 +134,6 @@ export class MondayAPI {
       return response;
     }, ['ETIMEDOUT', 'ECONNRESET', 'complexity_budget_exhausted']);
 
-    this.rateLimiter.recordRequest();
     return result as T;
   }
 
@@ -107,6 +161,7 @@ export class MondayAPI {
             color
             position
             archived
+            deleted
           }
         }
       }
@@ -116,6 +171,40 @@ export class MondayAPI {
     return data.boards;
   }
 
+  /**
+   * List the active boards in a workspace without their columns, page by page
+   */
+  async getWorkspaceBoards(workspaceId: number, limit: number = 100): Promise<MondayBoard[]> {
+    const query = gql`
+      query GetWorkspaceBoards($workspaceIds: [ID], $limit: Int, $page: Int) {
+        boards(workspace_ids: $workspaceIds, limit: $limit, page: $page, state: active) {
+          id
+          name
+          board_kind
+          board_folder_id
+          state
+          type
+          workspace_id
+          items_count
+        }
+      }
+    `;
+
+    const boards: MondayBoard[] = [];
+    for (let page = 1; ; page++) {
+      const data = await this.makeRequest<{ boards: MondayBoard[] }>(query, {
+        workspaceIds: [workspaceId],
+        limit,
+        page,
+      });
+      boards.push(...data.boards);
+
+      if (data.boards.length < limit) break;
+    }
+
+    return boards;
+  }
+
   async getBoard(boardId: number): Promise<MondayBoard> {
     const boards = await this.getBoards([boardId]);
     if (!boards || boards.length === 0) {
@@ -127,14 +216,16 @@ export class MondayAPI {
   async createBoard(
     name: string,
     boardKind: 'public' | 'private' | 'share' = 'public',
-    workspaceId?: number
+    workspaceId?: number,
+    folderId?: number
   ): Promise<MondayBoard> {
     const mutation = gql`
-      mutation CreateBoard($name: String!, $boardKind: BoardKind!, $workspaceId: ID) {
+      mutation CreateBoard($name: String!, $boardKind: BoardKind!, $workspaceId: ID, $folderId: ID) {
         create_board(
           board_name: $name
           board_kind: $boardKind
           workspace_id: $workspaceId
+          folder_id: $folderId
         ) {
           id
           name
@@ -150,10 +241,130 @@ export class MondayAPI {
       name,
       boardKind,
       workspaceId,
+      folderId,
     });
     return data.create_board;
   }
 
+  // User methods
+  async getUsers(limit: number = 200): Promise<MondayUser[]> {
+    const query = gql`
+      query GetUsers($limit: Int, $page: Int) {
+        users(limit: $limit, page: $page) {
+          id
+          name
+          email
+          enabled
+          photo_thumb
+          title
+        }
+      }
+    `;
+
+    const users: MondayUser[] = [];
+    for (let page = 1; ; page++) {
+      const data = await this.makeRequest<{ users: MondayUser[] }>(query, { limit, page });
+      users.push(...data.users);
+
+      if (data.users.length < limit) break;
+    }
+
+    return users;
+  }
+
+  // Workspace methods
+  async getWorkspaces(): Promise<MondayWorkspace[]> {
+    const query = gql`
+      query GetWorkspaces {
+        workspaces(limit: 100) {
+          id
+          name
+          kind
+          description
+        }
+      }
+    `;
+
+    const data = await this.makeRequest<{ workspaces: MondayWorkspace[] }>(query);
+    return data.workspaces;
+  }
+
+  // Folder methods
+  async getFolders(workspaceId: number): Promise<MondayFolder[]> {
+    const query = gql`
+      query GetFolders($workspaceIds: [ID]) {
+        folders(workspace_ids: $workspaceIds) {
+          id
+          name
+          parent {
+            id
+          }
+        }
+      }
+    `;
+
+    const data = await this.makeRequest<{ folders: MondayFolder[] }>(query, {
+      workspaceIds: [workspaceId],
+    });
+    return data.folders;
+  }
+
+  async createFolder(
+    workspaceId: number,
+    name: string,
+    parentFolderId?: number
+  ): Promise<MondayFolder> {
+    const mutation = gql`
+      mutation CreateFolder($workspaceId: ID!, $name: String!, $parentFolderId: ID) {
+        create_folder(
+          workspace_id: $workspaceId
+          name: $name
+          parent_folder_id: $parentFolderId
+        ) {
+          id
+          name
+        }
+      }
+    `;
+
+    const data = await this.makeRequest<{ create_folder: MondayFolder }>(mutation, {
+      workspaceId,
+      name,
+      parentFolderId,
+    });
+    return data.create_folder;
+  }
+
+  // Group methods
+  /**
+   * Create a group; with relativeTo it goes right after that group instead of at the top
+   */
+  async createGroup(boardId: number, groupName: string, relativeTo?: string): Promise<MondayGroup> {
+    const mutation = gql`
+      mutation CreateGroup($boardId: ID!, $groupName: String!, $relativeTo: String, $positionRelativeMethod: PositionRelative) {
+        create_group(
+          board_id: $boardId
+          group_name: $groupName
+          relative_to: $relativeTo
+          position_relative_method: $positionRelativeMethod
+        ) {
+          id
+          title
+          color
+          position
+        }
+      }
+    `;
+
+    const data = await this.makeRequest<{ create_group: MondayGroup }>(mutation, {
+      boardId,
+      groupName,
+      relativeTo,
+      positionRelativeMethod: relativeTo ? 'after_at' : undefined,
+    });
+    return data.create_group;
+  }
+
   // Column methods
   async createColumn(
     boardId: number,
@@ -188,45 +399,185 @@ export class MondayAPI {
   }
 
   // Item methods
-  async getItems(boardId: number, limit: number = 500): Promise<MondayItem[]> {
+  /**
+   * Fetch a single page of items. Pass the cursor from a previous page to continue;
+   * query params only apply to the first page (the cursor carries them forward).
+   */
+  async getItemsPage(
+    boardId: number,
+    options: {
+      limit?: number;
+      cursor?: string | null;
+      queryParams?: MondayItemsQueryParams;
+    } = {}
+  ): Promise<MondayItemsPage> {
+    const limit = options.limit ?? 500;
+
+    if (options.cursor) {
+      const query = gql`
+        query GetNextItemsPage($cursor: String!, $limit: Int!) {
+          next_items_page(cursor: $cursor, limit: $limit) {
+            cursor
+            items {
+              ${ITEM_FIELDS}
+            }
+          }
+        }
+      `;
+
+      const data = await this.makeRequest<{ next_items_page: MondayItemsPage }>(query, {
+        cursor: options.cursor,
+        limit,
+      });
+      return data.next_items_page;
+    }
+
     const query = gql`
-      query GetItems($boardId: ID!, $limit: Int) {
+      query GetItems($boardId: ID!, $limit: Int!, $queryParams: ItemsQuery) {
         boards(ids: [$boardId]) {
-          items_page(limit: $limit) {
+          items_page(limit: $limit, query_params: $queryParams) {
+            cursor
             items {
-              id
-              name
-              state
-              created_at
-              updated_at
-              creator_id
-              group {
-                id
-                title
-              }
-              column_values {
-                id
-                title
-                type
-                value
-                text
-              }
+              ${ITEM_FIELDS}
             }
           }
         }
       }
     `;
 
-    const data = await this.makeRequest<{ boards: Array<{ items_page: { items: MondayItem[] } }> }>(
+    const data = await this.makeRequest<{ boards: Array<{ items_page: MondayItemsPage }> }>(
       query,
-      { boardId, limit }
+      { boardId, limit, queryParams: options.queryParams }
     );
 
-    return data.boards[0]?.items_page?.items || [];
+    return data.boards[0]?.items_page || { cursor: null, items: [] };
+  }
+
+  /**
+   * Iterate over every item on a board, following next_items_page cursors
+   */
+  async *iterateItems(
+    boardId: number,
+    options: { limit?: number; queryParams?: MondayItemsQueryParams } = {}
+  ): AsyncGenerator<MondayItem[], void, undefined> {
+    let cursor: string | null = null;
+
+    do {
+      const page: MondayItemsPage = await this.getItemsPage(boardId, {
+        limit: options.limit,
+        cursor,
+        queryParams: cursor ? undefined : options.queryParams,
+      });
+
+      if (page.items.length > 0) {
+        yield page.items;
+      }
+
+      cursor = page.cursor;
+    } while (cursor);
+  }
+
+  async getItems(
+    boardId: number,
+    options: { limit?: number; queryParams?: MondayItemsQueryParams } = {}
+  ): Promise<MondayItem[]> {
+    const allItems: MondayItem[] = [];
+
+    for await (const items of this.iterateItems(boardId, options)) {
+      allItems.push(...items);
+    }
+
+    return allItems;
+  }
+
+  /**
+   * Fetch items by ID regardless of board (works for subitems too)
+   */
+  async getItemsByIds(itemIds: string[]): Promise<MondayItem[]> {
+    const query = gql`
+      query GetItemsByIds($ids: [ID!]) {
+        items(ids: $ids) {
+          ${ITEM_FIELDS}
+        }
+      }
+    `;
+
+    const items: MondayItem[] = [];
+
+    // The items query accepts at most 100 IDs per request
+    for (let i = 0; i < itemIds.length; i += 100) {
+      const data = await this.makeRequest<{ items: MondayItem[] }>(query, {
+        ids: itemIds.slice(i, i + 100),
+      });
+      items.push(...(data.items || []));
+    }
+
+    return items;
+  }
+
+  /**
+   * Items with their files, updates (and replies) and subitems, for copying
+   * whole items elsewhere. Heavier than getItemsByIds, so fetched in small pages.
+   */
+  async getItemDetails(itemIds: string[]): Promise<MondayItem[]> {
+    const query = gql`
+      query GetItemDetails($ids: [ID!]) {
+        items(ids: $ids) {
+          ${ITEM_FIELDS}
+          assets {
+            ${ASSET_FIELDS}
+          }
+          updates(limit: 100) {
+            ${UPDATE_FIELDS}
+            assets {
+              ${ASSET_FIELDS}
+            }
+            replies {
+              ${UPDATE_FIELDS}
+            }
+          }
+          subitems {
+            ${ITEM_FIELDS}
+            assets {
+              ${ASSET_FIELDS}
+            }
+            updates(limit: 100) {
+              ${UPDATE_FIELDS}
+              replies {
+                ${UPDATE_FIELDS}
+              }
+            }
+          }
+        }
+      }
+    `;
+
+    const items: MondayItem[] = [];
+
+    for (let i = 0; i < itemIds.length; i += 10) {
+      const data = await this.makeRequest<{ items: MondayItem[] }>(query, {
+        ids: itemIds.slice(i, i + 10),
+      });
+      items.push(...(data.items || []));
+    }
+
+    return items;
   }
 
   async searchItemsByName(boardId: number, searchQuery: string): Promise<MondayItem[]> {
-    const items = await this.getItems(boardId);
+    // Filter on Monday's side so we don't download the whole board
+    const items = await this.getItems(boardId, {
+      queryParams: {
+        rules: [
+          {
+            column_id: 'name',
+            compare_value: [searchQuery],
+            operator: 'contains_text',
+          },
+        ],
+      },
+    });
+
     return items.filter(item =>
       item.name.toLowerCase().includes(searchQuery.toLowerCase())
     );
@@ -245,11 +596,15 @@ export class MondayAPI {
           item_name: $itemName
           column_values: $columnValues
           group_id: $groupId
+          create_labels_if_missing: true
         ) {
           id
           name
           state
           created_at
+          board {
+            id
+          }
           group {
             id
             title
@@ -278,10 +633,14 @@ export class MondayAPI {
           parent_item_id: $parentItemId
           item_name: $itemName
           column_values: $columnValues
+          create_labels_if_missing: true
         ) {
           id
           name
           state
+          board {
+            id
+          }
         }
       }
     `;
@@ -319,11 +678,44 @@ export class MondayAPI {
     return data.change_column_value;
   }
 
+  /**
+   * Change several column values on an item at once. The "name" key renames the item.
+   * Status labels written by name are added to the column if missing.
+   */
+  async changeMultipleColumnValues(
+    boardId: number,
+    itemId: number,
+    columnValues: Record<string, any>
+  ): Promise<MondayItem> {
+    const mutation = gql`
+      mutation ChangeMultipleColumnValues($boardId: ID!, $itemId: ID!, $columnValues: JSON!) {
+        change_multiple_column_values(
+          board_id: $boardId
+          item_id: $itemId
+          column_values: $columnValues
+          create_labels_if_missing: true
+        ) {
+          id
+        }
+      }
+    `;
+
+    const data = await this.makeRequest<{ change_multiple_column_values: MondayItem }>(mutation, {
+      boardId: parseInt(boardId.toString()),
+      itemId: parseInt(itemId.toString()),
+      columnValues: JSON.stringify(columnValues),
+    });
+    return data.change_multiple_column_values;
+  }
+
   // Update methods (comments)
-  async createUpdate(itemId: number, body: string): Promise<MondayUpdate> {
+  /**
+   * Post an update on an item; with parentId it's posted as a reply to that update
+   */
+  async createUpdate(itemId: number, body: string, parentId?: string): Promise<MondayUpdate> {
     const mutation = gql`
-      mutation CreateUpdate($itemId: ID!, $body: String!) {
-        create_update(item_id: $itemId, body: $body) {
+      mutation CreateUpdate($itemId: ID!, $body: String!, $parentId: ID) {
+        create_update(item_id: $itemId, body: $body, parent_id: $parentId) {
           id
           body
           text_body
@@ -341,20 +733,18 @@ export class MondayAPI {
     const data = await this.makeRequest<{ create_update: MondayUpdate }>(mutation, {
       itemId: parseInt(itemId.toString()),
       body,
+      parentId: parentId ? parseInt(parentId) : undefined,
     });
     return data.create_update;
   }
 
-  // File upload method
+  // File upload methods
   async addFileToColumn(
     itemId: number,
     columnId: string,
     file: Buffer,
     fileName: string
   ): Promise<MondayAsset> {
-    const form = new FormData();
-
-    // Create the GraphQL query
     const query = `
       mutation ($file: File!) {
         add_file_to_column (
@@ -371,6 +761,51 @@ export class MondayAPI {
       }
     `;
 
+    const data = await this.uploadFile<{ add_file_to_column: MondayAsset }>(query, file, fileName);
+    return data.add_file_to_column;
+  }
+
+  /**
+   * Attach a file to an update, e.g. one posted for a migrated comment
+   */
+  async addFileToUpdate(updateId: string, file: Buffer, fileName: string): Promise<MondayAsset> {
+    const query = `
+      mutation ($file: File!) {
+        add_file_to_update (
+          update_id: ${updateId},
+          file: $file
+        ) {
+          id
+          name
+          url
+          file_extension
+          file_size
+        }
+      }
+    `;
+
+    const data = await this.uploadFile<{ add_file_to_update: MondayAsset }>(query, file, fileName);
+    return data.add_file_to_update;
+  }
+
+  /**
+   * Download a file from its public URL, which Monday signs for a limited time
+   */
+  async downloadAsset(asset: MondayAsset): Promise<Buffer> {
+    const response = await axios.get<ArrayBuffer>(asset.public_url || asset.url, {
+      responseType: 'arraybuffer',
+      headers: asset.public_url ? undefined : { Authorization: this.apiToken },
+      maxContentLength: Infinity,
+    });
+    return Buffer.from(response.data);
+  }
+
+  /**
+   * Files go through Monday's multipart endpoint rather than the GraphQL client
+   */
+  private async uploadFile<T>(query: string, file: Buffer, fileName: string): Promise<T> {
+    const form = new FormData();
+
     const map = {
       file: ['variables.file'],
     };
@@ -393,12 +828,69 @@ export class MondayAPI {
         throw new Error(`Monday file upload error: ${JSON.stringify(response.data.errors)}`);
       }
 
-      return response.data.data.add_file_to_column;
+      return response.data.data;
     } catch (error: any) {
       throw new Error(`Failed to upload file to Monday: ${error.message}`);
     }
   }
 
+  // Webhook methods
+  async createWebhook(
+    boardId: number,
+    url: string,
+    event: MondayWebhookEvent,
+    config?: Record<string, any>
+  ): Promise<MondayWebhook> {
+    const mutation = gql`
+      mutation CreateWebhook($boardId: ID!, $url: String!, $event: WebhookEventType!, $config: JSON) {
+        create_webhook(board_id: $boardId, url: $url, event: $event, config: $config) {
+          id
+          board_id
+          event
+          config
+        }
+      }
+    `;
+
+    const data = await this.makeRequest<{ create_webhook: MondayWebhook }>(mutation, {
+      boardId: parseInt(boardId.toString()),
+      url,
+      event,
+      config: config ? JSON.stringify(config) : undefined,
+    });
+    return data.create_webhook;
+  }
+
+  async getWebhooks(boardId: number): Promise<MondayWebhook[]> {
+    const query = gql`
+      query GetWebhooks($boardId: ID!) {
+        webhooks(board_id: $boardId) {
+          id
+          board_id
+          event
+          config
+        }
+      }
+    `;
+
+    const data = await this.makeRequest<{ webhooks: MondayWebhook[] }>(query, {
+      boardId: parseInt(boardId.toString()),
+    });
+    return data.webhooks || [];
+  }
+
+  async deleteWebhook(webhookId: string): Promise<void> {
+    const mutation = gql`
+      mutation DeleteWebhook($webhookId: ID!) {
+        delete_webhook(id: $webhookId) {
+          id
+        }
+      }
+    `;
+
+    await this.makeRequest<{ delete_webhook: { id: string } }>(mutation, { webhookId });
+  }
+
   // Utility methods
   getRateLimitStatus() {
     return {
@@ -23,6 +23,9 @@ export const getServiceSupabase = (): SupabaseClient<Database> => {
   );
 };
 
+// Max IDs per .in() filter, keeping lookups within URL length limits
+export const LOOKUP_CHUNK_SIZE = 100;
+
 // Encryption utilities for API tokens
 export const encryptToken = (token: string): string => {
   if (!encryptionKey || encryptionKey.length !== 64) {
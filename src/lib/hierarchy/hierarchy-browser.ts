@@ -0,0 +1,195 @@
+import { ClickUpAPI } from '@/lib/api/clickup';
+import { MondayAPI } from '@/lib/api/monday';
+import { TTLCache } from '@/lib/utils/cache';
+import type { ClickUpList } from '@/types/clickup';
+import type { HierarchyNode } from '@/types';
+
+// Hierarchies change rarely, and walking them costs many rate-limited requests
+const HIERARCHY_CACHE_TTL_MS = 5 * 60 * 1000;
+const hierarchyCache = new TTLCache<HierarchyNode[]>(HIERARCHY_CACHE_TTL_MS);
+
+/**
+ * Loads one level of the ClickUp hierarchy at a time:
+ * workspaces → spaces → folders and folderless lists → lists
+ */
+export class ClickUpHierarchy {
+  private clickup: ClickUpAPI;
+  private cacheKeyPrefix: string;
+
+  constructor(accessToken: string, userId: string) {
+    this.clickup = new ClickUpAPI(accessToken);
+    this.cacheKeyPrefix = `clickup:${userId}`;
+  }
+
+  async getWorkspaces(refresh: boolean = false): Promise<HierarchyNode[]> {
+    return this.cached('workspaces', refresh, async () => {
+      const workspaces = await this.clickup.getWorkspaces();
+      return workspaces.map(workspace => ({
+        id: workspace.id,
+        name: workspace.name,
+        type: 'workspace' as const,
+        parentId: null,
+        hasChildren: true,
+      }));
+    });
+  }
+
+  async getSpaces(workspaceId: string, refresh: boolean = false): Promise<HierarchyNode[]> {
+    return this.cached(`spaces:${workspaceId}`, refresh, async () => {
+      const spaces = await this.clickup.getSpaces(workspaceId);
+      return spaces.map(space => ({
+        id: space.id,
+        name: space.name,
+        type: 'space' as const,
+        parentId: workspaceId,
+        hasChildren: true,
+      }));
+    });
+  }
+
+  /**
+   * Folders in a space plus the lists that sit directly in it
+   */
+  async getSpaceContents(spaceId: string, refresh: boolean = false): Promise<HierarchyNode[]> {
+    return this.cached(`space:${spaceId}`, refresh, async () => {
+      const folders = await this.clickup.getSpaceFolders(spaceId);
+      const folderlessLists = await this.clickup.getSpaceLists(spaceId);
+
+      // Folder responses already include their lists, so prime the folder level too
+      for (const folder of folders) {
+        if (folder.lists) {
+          hierarchyCache.set(
+            this.cacheKey(`folder:${folder.id}`),
+            folder.lists.map(list => toListNode(list, folder.id, false))
+          );
+        }
+      }
+
+      return [
+        ...folders.map(folder => ({
+          id: folder.id,
+          name: folder.name,
+          type: 'folder' as const,
+          parentId: spaceId,
+          hasChildren: !folder.lists || folder.lists.length > 0,
+        })),
+        ...folderlessLists.map(list => toListNode(list, spaceId, true)),
+      ];
+    });
+  }
+
+  async getFolderLists(folderId: string, refresh: boolean = false): Promise<HierarchyNode[]> {
+    return this.cached(`folder:${folderId}`, refresh, async () => {
+      const lists = await this.clickup.getFolderLists(folderId);
+      return lists.map(list => toListNode(list, folderId, false));
+    });
+  }
+
+  private cached(
+    key: string,
+    refresh: boolean,
+    loader: () => Promise<HierarchyNode[]>
+  ): Promise<HierarchyNode[]> {
+    const cacheKey = this.cacheKey(key);
+    return refresh
+      ? hierarchyCache.reload(cacheKey, loader)
+      : hierarchyCache.getOrLoad(cacheKey, loader);
+  }
+
+  private cacheKey(key: string): string {
+    return `${this.cacheKeyPrefix}:${key}`;
+  }
+}
+
+/**
+ * Loads one level of the Monday hierarchy at a time:
+ * workspaces → folders and boards → groups
+ */
+export class MondayHierarchy {
+  private monday: MondayAPI;
+  private cacheKeyPrefix: string;
+
+  constructor(accessToken: string, userId: string) {
+    this.monday = new MondayAPI(accessToken);
+    this.cacheKeyPrefix = `monday:${userId}`;
+  }
+
+  async getWorkspaces(refresh: boolean = false): Promise<HierarchyNode[]> {
+    return this.cached('workspaces', refresh, async () => {
+      const workspaces = await this.monday.getWorkspaces();
+      return workspaces.map(workspace => ({
+        id: workspace.id,
+        name: workspace.name,
+        type: 'workspace' as const,
+        parentId: null,
+        hasChildren: true,
+      }));
+    });
+  }
+
+  /**
+   * Folders and boards in a workspace. Nodes are returned flat; each one's
+   * parentId is its folder, or the workspace when it isn't in a folder.
+   */
+  async getWorkspaceContents(workspaceId: string, refresh: boolean = false): Promise<HierarchyNode[]> {
+    return this.cached(`workspace:${workspaceId}`, refresh, async () => {
+      const folders = await this.monday.getFolders(parseInt(workspaceId));
+      const boards = (await this.monday.getWorkspaceBoards(parseInt(workspaceId)))
+        .filter(board => !board.type || board.type === 'board');
+
+      return [
+        ...folders.map(folder => ({
+          id: folder.id,
+          name: folder.name,
+          type: 'folder' as const,
+          parentId: folder.parent?.id || workspaceId,
+          hasChildren: true,
+        })),
+        ...boards.map(board => ({
+          id: board.id,
+          name: board.name,
+          type: 'board' as const,
+          parentId: board.board_folder_id ? board.board_folder_id.toString() : workspaceId,
+          hasChildren: true,
+          count: board.items_count,
+        })),
+      ];
+    });
+  }
+
+  async getBoardGroups(boardId: string, refresh: boolean = false): Promise<HierarchyNode[]> {
+    return this.cached(`board:${boardId}`, refresh, async () => {
+      const board = await this.monday.getBoard(parseInt(boardId));
+      return (board.groups || [])
+        .filter(group => !group.archived && !group.deleted)
+        .map(group => ({
+          id: group.id,
+          name: group.title,
+          type: 'group' as const,
+          parentId: boardId,
+          hasChildren: false,
+        }));
+    });
+  }
+
+  private cached(
+    key: string,
+    refresh: boolean,
+    loader: () => Promise<HierarchyNode[]>
+  ): Promise<HierarchyNode[]> {
+    const cacheKey = `${this.cacheKeyPrefix}:${key}`;
+    return refresh
+      ? hierarchyCache.reload(cacheKey, loader)
+      : hierarchyCache.getOrLoad(cacheKey, loader);
+  }
+}
+
+const toListNode = (list: ClickUpList, parentId: string, folderless: boolean): HierarchyNode => ({
+  id: list.id,
+  name: list.name,
+  type: 'list',
+  parentId,
+  hasChildren: false,
+  folderless,
+  count: list.task_count,
+});
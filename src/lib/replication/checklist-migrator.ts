@@ -0,0 +1,215 @@
+import { MondayAPI } from '@/lib/api/monday';
+import { getServiceSupabase } from '@/lib/db/supabase';
+import { escapeHtml } from '@/lib/utils/html';
+import { TTLCache } from '@/lib/utils/cache';
+import type { UserMapping } from './user-mapper';
+import type { ClickUpChecklist, ClickUpChecklistItem, ClickUpTask } from '@/types/clickup';
+import type { MondayColumnType } from '@/types/monday';
+import type { ChecklistMode } from '@/types';
+
+export const CHECKLIST_MODES: ChecklistMode[] = ['none', 'subitems', 'update'];
+
+interface FlattenedItem {
+  item: ClickUpChecklistItem;
+  depth: number;
+}
+
+/**
+ * Migrates a task's ClickUp checklists onto its Monday item, either as
+ * subitems (with a Done checkbox and the assignee) or as one formatted
+ * update per checklist. Everything migrated is recorded in task_mappings.
+ */
+export class ChecklistMigrator {
+  private monday: MondayAPI;
+  private replicationId: string;
+  private userMapping?: UserMapping;
+  private columnIds = new TTLCache<string>();
+
+  constructor(monday: MondayAPI, replicationId: string, userMapping?: UserMapping) {
+    this.monday = monday;
+    this.replicationId = replicationId;
+    this.userMapping = userMapping;
+  }
+
+  /**
+   * Migrate every checklist of a task; returns the number of checklist items migrated
+   */
+  async migrate(task: ClickUpTask, itemId: number, mode: ChecklistMode): Promise<number> {
+    const checklists = [...(task.checklists || [])]
+      .filter(checklist => checklist.items?.length > 0)
+      .sort((a, b) => a.orderindex - b.orderindex);
+
+    if (mode === 'none' || checklists.length === 0) return 0;
+
+    let migrated = 0;
+    for (const checklist of checklists) {
+      migrated += mode === 'update'
+        ? await this.migrateAsUpdate(checklist, task, itemId)
+        : await this.migrateAsSubitems(checklist, task, itemId, checklists.length > 1);
+    }
+
+    return migrated;
+  }
+
+  /**
+   * One subitem per checklist item. Monday subitems don't nest, so nested
+   * items follow their parent with an arrow per level.
+   */
+  private async migrateAsSubitems(
+    checklist: ClickUpChecklist,
+    task: ClickUpTask,
+    itemId: number,
+    prefixChecklistName: boolean
+  ): Promise<number> {
+    const db = getServiceSupabase();
+
+    for (const { item, depth } of flattenChecklist(checklist.items)) {
+      const prefix = `${prefixChecklistName ? `[${checklist.name}] ` : ''}${'↳ '.repeat(depth)}`;
+      const subitem = await this.monday.createSubitem(itemId, `${prefix}${item.name}`);
+
+      // The subitems board only exists once the first subitem is created, so values are set afterwards
+      const columnValues = await this.getSubitemColumnValues(item, subitem.board.id);
+      if (Object.keys(columnValues).length > 0) {
+        await this.monday.changeMultipleColumnValues(
+          parseInt(subitem.board.id),
+          parseInt(subitem.id),
+          columnValues
+        );
+      }
+
+      await db.from('task_mappings').insert({
+        replication_id: this.replicationId,
+        clickup_task_id: item.id,
+        entity_type: 'checklist_item',
+        monday_item_id: subitem.id,
+        clickup_parent_id: item.parent || task.id,
+        monday_parent_id: itemId.toString(),
+        task_data: { ...item, checklist_id: checklist.id, checklist_name: checklist.name },
+        sync_status: 'synced',
+        last_synced_at: new Date().toISOString(),
+      } as any);
+
+      console.log(`  ↳ Created checklist subitem: ${subitem.name}`);
+    }
+
+    return checklist.items.length;
+  }
+
+  /**
+   * The whole checklist as one update with a nested list of items
+   */
+  private async migrateAsUpdate(
+    checklist: ClickUpChecklist,
+    task: ClickUpTask,
+    itemId: number
+  ): Promise<number> {
+    const db = getServiceSupabase();
+
+    const update = await this.monday.createUpdate(itemId, formatChecklist(checklist));
+
+    await db.from('task_mappings').insert({
+      replication_id: this.replicationId,
+      clickup_task_id: checklist.id,
+      entity_type: 'checklist',
+      monday_item_id: itemId.toString(),
+      clickup_parent_id: task.id,
+      task_data: { ...checklist, monday_update_id: update.id },
+      sync_status: 'synced',
+      last_synced_at: new Date().toISOString(),
+    } as any);
+
+    console.log(`  ↳ Added checklist update: ${checklist.name}`);
+    return checklist.items.length;
+  }
+
+  /**
+   * Done checkbox plus the assignee, or their name as text when they have no Monday user
+   */
+  private async getSubitemColumnValues(
+    item: ClickUpChecklistItem,
+    subitemBoardId: string
+  ): Promise<Record<string, any>> {
+    const columnValues: Record<string, any> = {};
+
+    if (item.resolved) {
+      const doneColumnId = await this.ensureColumn(subitemBoardId, 'Done', 'checkbox');
+      columnValues[doneColumnId] = { checked: 'true' };
+    }
+
+    if (item.assignee && this.userMapping) {
+      const people = this.userMapping.toPeopleValue([item.assignee]);
+
+      if (people) {
+        columnValues[await this.ensureColumn(subitemBoardId, 'Owner', 'people', true)] = people;
+      } else {
+        const textColumnId = await this.ensureColumn(subitemBoardId, 'ClickUp People', 'text');
+        columnValues[textColumnId] = item.assignee.username || item.assignee.email;
+      }
+    }
+
+    return columnValues;
+  }
+
+  /**
+   * Find or create a column on a subitems board. With anyTitle, any column of
+   * the type will do (subitem boards come with an Owner people column).
+   */
+  private ensureColumn(
+    boardId: string,
+    title: string,
+    type: MondayColumnType,
+    anyTitle: boolean = false
+  ): Promise<string> {
+    return this.columnIds.getOrLoad(`${boardId}:${title}:${type}`, async () => {
+      const board = await this.monday.getBoard(parseInt(boardId));
+      const column = board.columns?.find(
+        col => !col.archived && col.type === type && (anyTitle || col.title === title)
+      ) || await this.monday.createColumn(parseInt(boardId), title, type);
+      return column.id;
+    });
+  }
+}
+
+/**
+ * Checklist items in display order, children right after their parent
+ */
+const flattenChecklist = (items: ClickUpChecklistItem[]): FlattenedItem[] => {
+  const ids = new Set(items.map(item => item.id));
+  const byOrder = (a: ClickUpChecklistItem, b: ClickUpChecklistItem) => a.orderindex - b.orderindex;
+  const flattened: FlattenedItem[] = [];
+
+  const visit = (parentId: string | null, depth: number) => {
+    items
+      // Items whose parent isn't in the checklist are treated as top level
+      .filter(item => parentId ? item.parent === parentId : !item.parent || !ids.has(item.parent))
+      .sort(byOrder)
+      .forEach(item => {
+        flattened.push({ item, depth });
+        visit(item.id, depth + 1);
+      });
+  };
+
+  visit(null, 0);
+  return flattened;
+};
+
+/**
+ * Monday update HTML for a checklist: its name and a nested list of items
+ */
+const formatChecklist = (checklist: ClickUpChecklist): string => {
+  const renderItems = (parentId: string | null): string => {
+    const ids = new Set(checklist.items.map(item => item.id));
+    const children = checklist.items
+      .filter(item => parentId ? item.parent === parentId : !item.parent || !ids.has(item.parent))
+      .sort((a, b) => a.orderindex - b.orderindex);
+
+    if (children.length === 0) return '';
+
+    return `<ul>${children.map(item => {
+      const assignee = item.assignee ? ` <em>(${escapeHtml(item.assignee.username || item.assignee.email)})</em>` : '';
+      return `<li>${item.resolved ? '☑' : '☐'} ${escapeHtml(item.name)}${assignee}${renderItems(item.id)}</li>`;
+    }).join('')}</ul>`;
+  };
+
+  return `<p><strong>Checklist: ${escapeHtml(checklist.name)}</strong></p>${renderItems(null)}`;
+};
@@ -0,0 +1,157 @@
+import { ClickUpAPI } from '@/lib/api/clickup';
+import { MondayAPI } from '@/lib/api/monday';
+import { getServiceSupabase } from '@/lib/db/supabase';
+import { escapeHtml, isSafeUrl } from '@/lib/utils/html';
+import type { ClickUpComment, ClickUpCommentFile, ClickUpCommentPart } from '@/types/clickup';
+
+/**
+ * Migrates a task's ClickUp comments as Monday updates: HTML with the
+ * original author and date, threaded replies as update replies, and the
+ * comment's files attached to its update. Migrated comments are recorded
+ * in comment_mappings, so a rerun only posts the ones still missing.
+ */
+export class CommentMigrator {
+  private clickup: ClickUpAPI;
+  private monday: MondayAPI;
+  private replicationId: string;
+
+  constructor(clickup: ClickUpAPI, monday: MondayAPI, replicationId: string) {
+    this.clickup = clickup;
+    this.monday = monday;
+    this.replicationId = replicationId;
+  }
+
+  /**
+   * Migrate every comment of a task onto its item; returns the number of updates posted
+   */
+  async migrate(taskId: string, itemId: number): Promise<number> {
+    const db = getServiceSupabase();
+
+    const { data: existing } = (await db
+      .from('comment_mappings')
+      .select('clickup_comment_id, monday_update_id')
+      .eq('replication_id', this.replicationId)
+      .eq('clickup_task_id', taskId)) as { data: any[] | null };
+
+    const updateIds = new Map<string, string>(
+      (existing || []).map(mapping => [mapping.clickup_comment_id, mapping.monday_update_id])
+    );
+
+    // ClickUp returns the newest comment first; post them in the order they were written
+    const comments = [...await this.clickup.getTaskComments(taskId)]
+      .sort((a, b) => parseInt(a.date) - parseInt(b.date));
+
+    let posted = 0;
+    for (const comment of comments) {
+      try {
+        let updateId = updateIds.get(comment.id);
+        if (!updateId) {
+          updateId = await this.postComment(comment, taskId, itemId);
+          posted++;
+        }
+
+        if (parseInt(comment.reply_count?.toString() || '0') > 0) {
+          const replies = await this.clickup.getCommentReplies(comment.id);
+
+          for (const reply of replies.filter(reply => !updateIds.has(reply.id))) {
+            await this.postComment(reply, taskId, itemId, comment.id, updateId);
+            posted++;
+          }
+        }
+      } catch (error: any) {
+        console.error(`Failed to migrate comment:`, error.message);
+      }
+    }
+
+    return posted;
+  }
+
+  private async postComment(
+    comment: ClickUpComment,
+    taskId: string,
+    itemId: number,
+    parentCommentId?: string,
+    parentUpdateId?: string
+  ): Promise<string> {
+    const db = getServiceSupabase();
+
+    const update = await this.monday.createUpdate(itemId, renderComment(comment), parentUpdateId);
+
+    // Record the comment before its files, so a failed upload doesn't post it twice
+    const { error } = (await db.from('comment_mappings').insert({
+      replication_id: this.replicationId,
+      clickup_comment_id: comment.id,
+      clickup_task_id: taskId,
+      clickup_parent_comment_id: parentCommentId || null,
+      monday_item_id: itemId.toString(),
+      monday_update_id: update.id,
+    } as any)) as { error: any };
+
+    // Unrecorded, the comment would be posted again on the next run
+    if (error) {
+      throw new Error(`Posted comment ${comment.id} as update ${update.id} but failed to record it: ${error.message}`);
+    }
+
+    for (const file of getCommentFiles(comment)) {
+      const fileName = file.title || file.name || `${file.id}${file.extension ? `.${file.extension}` : ''}`;
+
+      try {
+        const fileBuffer = await this.clickup.downloadAttachment(file.url);
+        await this.monday.addFileToUpdate(update.id, fileBuffer, fileName);
+      } catch (error: any) {
+        console.error(`Failed to attach ${fileName} to comment:`, error.message);
+      }
+    }
+
+    console.log(parentUpdateId ? `  ↳ Migrated reply` : `  ↳ Migrated comment`);
+    return update.id;
+  }
+}
+
+/**
+ * Monday update HTML for a comment: who wrote it and when, whom it's
+ * assigned to, then the text with its formatting
+ */
+export const renderComment = (comment: ClickUpComment): string => {
+  const author = comment.user?.username || comment.user?.email || 'Unknown user';
+  const date = new Date(parseInt(comment.date)).toISOString().replace('T', ' ').substring(0, 16);
+  const header = [`<p><strong>${escapeHtml(author)}</strong> · ${date} UTC</p>`];
+
+  if (comment.assignee) {
+    const assignee = escapeHtml(comment.assignee.username || comment.assignee.email);
+    const assignedBy = comment.assigned_by
+      ? ` by ${escapeHtml(comment.assigned_by.username || comment.assigned_by.email)}`
+      : '';
+    header.push(`<p><em>Assigned to ${assignee}${assignedBy} · ${comment.resolved ? 'Resolved' : 'Open'}</em></p>`);
+  }
+
+  const parts = comment.comment?.length
+    ? comment.comment
+    : [{ text: comment.comment_text || '' }];
+
+  return `${header.join('')}<p>${parts.map(renderPart).join('').replace(/\n/g, '<br>')}</p>`;
+};
+
+const renderPart = (part: ClickUpCommentPart): string => {
+  // Files are attached to the update; the text just names them
+  if (part.type === 'image' || part.type === 'attachment') {
+    const file = part.image || part.attachment;
+    return `📎 ${escapeHtml(file?.title || file?.name || part.text || 'file')}`;
+  }
+
+  let html = escapeHtml(part.text || '');
+  const attributes = part.attributes || {};
+
+  if (attributes.code) html = `<code>${html}</code>`;
+  if (attributes.bold) html = `<strong>${html}</strong>`;
+  if (attributes.italic) html = `<em>${html}</em>`;
+  if (attributes.link && isSafeUrl(attributes.link)) html = `<a href="${escapeHtml(attributes.link)}">${html}</a>`;
+
+  return html;
+};
+
+const getCommentFiles = (comment: ClickUpComment): ClickUpCommentFile[] => {
+  return (comment.comment || [])
+    .map(part => part.image || part.attachment)
+    .filter((file): file is ClickUpCommentFile => !!file?.url);
+};
@@ -0,0 +1,336 @@
+import { ClickUpAPI } from '@/lib/api/clickup';
+import { MondayAPI } from '@/lib/api/monday';
+import { getServiceSupabase } from '@/lib/db/supabase';
+import { JobControl, JobHaltedError } from '@/lib/sync/job-control';
+import { ListReplicator } from './list-replicator';
+import type { ClickUpList } from '@/types/clickup';
+
+export interface ContainerReplicationResult {
+  success: boolean;
+  mondayFolderId?: string;
+  listsCompleted: number;
+  listsFailed: number;
+  errors: string[];
+}
+
+interface ContainerList {
+  list: ClickUpList;
+  displayName: string; // Prefixed with the folder name for lists inside a space's folders
+}
+
+/**
+ * Replicates every list in a ClickUp folder or space. Each list gets its own
+ * list_replications row and is run through ListReplicator, either onto its
+ * own board or as a group on one shared board. Boards go into a Monday
+ * folder named after the ClickUp container.
+ */
+export class ContainerReplicator {
+  private clickup: ClickUpAPI;
+  private monday: MondayAPI;
+  private clickupToken: string;
+  private mondayToken: string;
+  private containerReplicationId: string;
+  private userId: string;
+  private jobId?: string;
+  private jobControl?: JobControl;
+
+  constructor(
+    clickupToken: string,
+    mondayToken: string,
+    containerReplicationId: string,
+    userId: string,
+    jobId?: string
+  ) {
+    this.clickup = new ClickUpAPI(clickupToken);
+    this.monday = new MondayAPI(mondayToken);
+    this.clickupToken = clickupToken;
+    this.mondayToken = mondayToken;
+    this.containerReplicationId = containerReplicationId;
+    this.userId = userId;
+    this.jobId = jobId;
+    this.jobControl = jobId ? new JobControl(jobId) : undefined;
+  }
+
+  /**
+   * Replicate the container's lists, skipping any already completed by an earlier run
+   */
+  async run(): Promise<ContainerReplicationResult> {
+    const db = getServiceSupabase();
+    const result: ContainerReplicationResult = {
+      success: true,
+      listsCompleted: 0,
+      listsFailed: 0,
+      errors: [],
+    };
+
+    const { data: container, error } = (await db
+      .from('container_replications')
+      .select('*')
+      .eq('id', this.containerReplicationId)
+      .single()) as { data: any; error: any };
+
+    if (error || !container) {
+      throw new Error(`Container replication ${this.containerReplicationId} not found`);
+    }
+
+    try {
+      await this.updateContainer({
+        status: 'running',
+        started_at: container.started_at || new Date().toISOString(),
+        error_message: null,
+      });
+
+      console.log(`Replicating ClickUp ${container.clickup_container_type} ${container.clickup_container_id}...`);
+      const { name: containerName, lists } = await this.getContainerLists(
+        container.clickup_container_type,
+        container.clickup_container_id
+      );
+
+      const folderId = container.monday_folder_id
+        || await this.ensureMondayFolder(parseInt(container.monday_workspace_id), containerName);
+      result.mondayFolderId = folderId;
+
+      let sharedBoardId: string | null = container.monday_board_id;
+      if (container.layout === 'group_per_list' && !sharedBoardId) {
+        console.log(`Creating shared Monday board: ${containerName}...`);
+        const board = await this.monday.createBoard(
+          containerName,
+          'public',
+          parseInt(container.monday_workspace_id),
+          parseInt(folderId)
+        );
+        sharedBoardId = board.id;
+      }
+
+      await this.updateContainer({
+        clickup_container_name: containerName,
+        monday_folder_id: folderId,
+        monday_board_id: sharedBoardId,
+        total_lists: lists.length,
+      });
+
+      const children = await this.ensureChildReplications(container, lists);
+
+      for (const { list, displayName } of lists) {
+        const child = children.get(list.id)!;
+
+        if (child.status === 'completed') {
+          result.listsCompleted++;
+          continue;
+        }
+
+        await this.jobControl?.throwIfHalted();
+
+        try {
+          await this.ensureChildTarget(child, displayName, container, folderId, sharedBoardId);
+
+          const replicator = new ListReplicator(
+            this.clickupToken,
+            this.mondayToken,
+            child.id,
+            this.userId,
+            this.jobId
+          );
+          await replicator.resume();
+          result.listsCompleted++;
+          console.log(`✓ Replicated list ${displayName}`);
+        } catch (error: any) {
+          if (error instanceof JobHaltedError) throw error;
+
+          // One failing list shouldn't stop the rest; a rerun retries it
+          result.success = false;
+          result.listsFailed++;
+          result.errors.push(`${displayName}: ${error.message}`);
+          console.error(`✗ Failed to replicate list ${displayName}:`, error.message);
+        }
+
+        await this.refreshProgress();
+      }
+
+      await this.refreshProgress();
+      await this.updateContainer(result.success
+        ? { status: 'completed', completed_at: new Date().toISOString() }
+        : { status: 'failed', error_message: `${result.listsFailed} of ${lists.length} lists failed` });
+
+      return result;
+    } catch (error: any) {
+      await this.refreshProgress();
+
+      if (error instanceof JobHaltedError) {
+        console.log(`Container replication stopped: ${error.message}`);
+        if (error.reason !== 'lease_lost') {
+          await this.updateContainer({ status: error.reason });
+        }
+        throw error;
+      }
+
+      console.error('Container replication failed:', error);
+      await this.updateContainer({ status: 'failed', error_message: error.message });
+      throw error;
+    }
+  }
+
+  /**
+   * Sum progress over the child list replications into the container record
+   */
+  async refreshProgress(): Promise<void> {
+    const db = getServiceSupabase();
+
+    const { data: children } = (await db
+      .from('list_replications')
+      .select('status, total_tasks, migrated_tasks')
+      .eq('container_replication_id', this.containerReplicationId)) as { data: any[] | null };
+
+    const rows = children || [];
+    await this.updateContainer({
+      completed_lists: rows.filter(child => child.status === 'completed').length,
+      failed_lists: rows.filter(child => child.status === 'failed').length,
+      total_tasks: rows.reduce((sum, child) => sum + (child.total_tasks || 0), 0),
+      migrated_tasks: rows.reduce((sum, child) => sum + (child.migrated_tasks || 0), 0),
+    });
+  }
+
+  /**
+   * Collect the lists in a folder, or in a space including its folders' lists
+   */
+  private async getContainerLists(
+    type: 'folder' | 'space',
+    containerId: string
+  ): Promise<{ name: string; lists: ContainerList[] }> {
+    if (type === 'folder') {
+      const folder = await this.clickup.getFolder(containerId);
+      const lists = await this.clickup.getFolderLists(containerId);
+      return {
+        name: folder.name,
+        lists: lists.map(list => ({ list, displayName: list.name })),
+      };
+    }
+
+    const space = await this.clickup.getSpace(containerId);
+    const lists: ContainerList[] = (await this.clickup.getSpaceLists(containerId))
+      .map(list => ({ list, displayName: list.name }));
+
+    for (const folder of await this.clickup.getSpaceFolders(containerId)) {
+      const folderLists = folder.lists?.length
+        ? folder.lists
+        : await this.clickup.getFolderLists(folder.id);
+
+      lists.push(...folderLists.map(list => ({
+        list,
+        displayName: `${folder.name} / ${list.name}`,
+      })));
+    }
+
+    return { name: space.name, lists };
+  }
+
+  /**
+   * Reuse a Monday folder with the container's name, or create one
+   */
+  private async ensureMondayFolder(workspaceId: number, name: string): Promise<string> {
+    const folders = await this.monday.getFolders(workspaceId);
+    const existing = folders.find(folder => !folder.parent && folder.name === name);
+
+    if (existing) {
+      console.log(`Reusing Monday folder ${existing.name}`);
+      return existing.id;
+    }
+
+    console.log(`Creating Monday folder: ${name}...`);
+    const folder = await this.monday.createFolder(workspaceId, name);
+    return folder.id;
+  }
+
+  /**
+   * Create a list_replications row for every list that doesn't have one yet
+   */
+  private async ensureChildReplications(
+    container: any,
+    lists: ContainerList[]
+  ): Promise<Map<string, any>> {
+    const db = getServiceSupabase();
+
+    const { data: existing } = (await db
+      .from('list_replications')
+      .select('*')
+      .eq('container_replication_id', this.containerReplicationId)) as { data: any[] | null };
+
+    const children = new Map<string, any>((existing || []).map(child => [child.clickup_list_id, child]));
+
+    for (const { list, displayName } of lists) {
+      if (children.has(list.id)) continue;
+
+      const { data: child, error } = (await db
+        .from('list_replications')
+        .insert({
+          user_id: this.userId,
+          container_replication_id: this.containerReplicationId,
+          clickup_list_id: list.id,
+          clickup_list_name: list.name,
+          monday_board_name: displayName,
+          status: 'mapping',
+          replication_mode: container.replication_mode,
+          options: container.options,
+        } as any)
+        .select()
+        .single()) as { data: any; error: any };
+
+      if (error || !child) {
+        throw new Error(`Failed to create replication record for list ${list.name}: ${error?.message}`);
+      }
+
+      children.set(list.id, child);
+    }
+
+    return children;
+  }
+
+  /**
+   * Point a child replication at its board (and group) before it runs.
+   * Boards are created here, inside the folder, rather than by ListReplicator.
+   */
+  private async ensureChildTarget(
+    child: any,
+    displayName: string,
+    container: any,
+    folderId: string,
+    sharedBoardId: string | null
+  ): Promise<void> {
+    if (child.monday_board_id && (container.layout !== 'group_per_list' || child.monday_group_id)) {
+      return;
+    }
+
+    const db = getServiceSupabase();
+    const updates: Record<string, any> = {};
+
+    if (container.layout === 'group_per_list') {
+      const group = await this.monday.createGroup(parseInt(sharedBoardId!), displayName);
+      updates.monday_board_id = sharedBoardId;
+      updates.monday_group_id = group.id;
+    } else {
+      const board = await this.monday.createBoard(
+        displayName,
+        'public',
+        parseInt(container.monday_workspace_id),
+        parseInt(folderId)
+      );
+      updates.monday_board_id = board.id;
+      updates.monday_board_name = board.name;
+    }
+
+    await (db
+      .from('list_replications')
+      .update(updates as any)
+      .eq('id', child.id) as any);
+
+    Object.assign(child, updates);
+  }
+
+  private async updateContainer(data: any): Promise<void> {
+    const db = getServiceSupabase();
+    await (db
+      .from('container_replications')
+      .update(data as any)
+      .eq('id', this.containerReplicationId) as any);
+  }
+}
@@ -3,9 +3,37 @@ import type {
   ClickUpTask,
 } from '@/types/clickup';
 import type {
+  MondayColumn,
   MondayColumnType,
   FieldMapping,
 } from '@/types/monday';
+import type { UserMapping } from './user-mapper';
+import type { StatusLabelMap } from './status-mapper';
+import type { FieldMappingAction, FieldMappingOverride } from '@/types';
+
+// Where a custom field goes once the user's override, if any, is applied
+export interface ResolvedFieldTarget {
+  action: FieldMappingAction;
+  title: string;
+  type: MondayColumnType;
+  settings: any;
+  mondayColumnId?: string;
+}
+
+const TEXT_COLUMN_TYPES: MondayColumnType[] = ['text', 'long-text'];
+
+// Columns for the task's dates and time, created when a task has values for them.
+// Monday's time tracking column can't be written through the API, so tracked
+// time goes into a numbers column as well.
+export const TIMELINE_COLUMN = 'Timeline';
+export const TIME_ESTIMATE_COLUMN = 'Time Estimate (h)';
+export const TIME_TRACKED_COLUMN = 'Time Tracked (h)';
+
+// Long-text column for descriptions with descriptionTarget 'column'
+export const DESCRIPTION_COLUMN = 'Description';
+
+// People column for assignees that have a Monday user
+export const ASSIGNEES_COLUMN = 'Owner';
 
 /**
  * Maps ClickUp field types to Monday.com column types
@@ -51,6 +79,69 @@ export class FieldMapper {
     }));
   }
 
+  /**
+   * Column types a field's values can be written to: the suggested type, or as text
+   */
+  static getCompatibleColumnTypes(clickupFieldType: string): MondayColumnType[] {
+    const suggested = this.mapFieldType(clickupFieldType);
+    return [suggested, ...TEXT_COLUMN_TYPES.filter(type => type !== suggested)];
+  }
+
+  /**
+   * Find a board column by title (ignoring case) whose type is one of the
+   * given types, preferring earlier types
+   */
+  static findMatchingColumn(
+    columns: MondayColumn[],
+    title: string,
+    types: MondayColumnType[]
+  ): MondayColumn | undefined {
+    const normalizedTitle = title.trim().toLowerCase();
+    const candidates = columns.filter(
+      col => !col.archived && col.title.trim().toLowerCase() === normalizedTitle
+    );
+
+    for (const type of types) {
+      const column = candidates.find(col => col.type === type);
+      if (column) return column;
+    }
+    return undefined;
+  }
+
+  /**
+   * Apply a field-mapping override to a custom field. Incompatible column
+   * types fall back to the suggested one.
+   */
+  static resolveFieldTarget(
+    field: ClickUpCustomField,
+    override?: FieldMappingOverride
+  ): ResolvedFieldTarget {
+    const suggestedType = this.mapFieldType(field.type);
+    const action = override?.action || 'create';
+
+    if (action === 'merge') {
+      return {
+        action,
+        title: this.sanitizeColumnName(override?.columnTitle || field.name),
+        type: override?.columnType === 'text' ? 'text' : 'long-text',
+        settings: {},
+      };
+    }
+
+    const type = override?.columnType && this.getCompatibleColumnTypes(field.type).includes(override.columnType)
+      ? override.columnType
+      : suggestedType;
+
+    return {
+      action,
+      title: this.sanitizeColumnName(override?.columnTitle || field.name),
+      type,
+      // Settings such as dropdown labels only fit the suggested column type
+      settings: type === suggestedType ? this.createColumnSettings(field) : {},
+      mondayColumnId: override?.mondayColumnId,
+    };
+  }
+
   /**
    * Sanitize column names for Monday.com (remove special chars, limit length)
    */
@@ -62,9 +153,13 @@ export class FieldMapper {
   }
 
   /**
-   * Get transformation rule for converting ClickUp values to Monday values
+   * Get transformation rule for converting ClickUp values to Monday values.
+   * People values need a user mapping; without one they are dropped.
    */
-  static getTransformationRule(fieldType: string): ((value: any) => any) | undefined {
+  static getTransformationRule(
+    fieldType: string,
+    userMapping?: UserMapping
+  ): ((value: any) => any) | undefined {
     const transformations: Record<string, (value: any) => any> = {
       'drop_down': (value: any) => {
         if (!value) return null;
@@ -89,15 +184,10 @@ export class FieldMapper {
       },
 
       'users': (value: any) => {
-        if (!value) return null;
-        // ClickUp users array -> Monday people column
+        if (!value || !userMapping) return null;
+        // ClickUp users array -> Monday people column, matched users only
         const users = Array.isArray(value) ? value : [value];
-        return {
-          personsAndTeams: users.map((u: any) => ({
-            id: u.id,
-            kind: 'person',
-          })),
-        };
+        return userMapping.toPeopleValue(users);
       },
 
       'labels': (value: any) => {
@@ -169,16 +259,34 @@ export class FieldMapper {
    */
   static transformCustomFieldValues(
     task: ClickUpTask,
-    fieldMappings: FieldMapping[]
+    fieldMappings: FieldMapping[],
+    userMapping?: UserMapping
   ): Record<string, any> {
     const columnValues: Record<string, any> = {};
+    const mergedLines: Record<string, string[]> = {};
 
     for (const field of task.custom_fields || []) {
       const mapping = fieldMappings.find(m => m.clickupField === field.name);
       if (!mapping) continue;
 
-      const transform = mapping.transformationRule || this.getTransformationRule(field.type);
-      const value = transform ? transform(field.value) : field.value;
+      if (mapping.merged) {
+        const text = this.toDisplayText(field);
+        if (text) {
+          mergedLines[mapping.mondayColumn] = mergedLines[mapping.mondayColumn] || [];
+          mergedLines[mapping.mondayColumn].push(`${field.name}: ${text}`);
+        }
+        continue;
+      }
+
+      let value: any;
+      if (TEXT_COLUMN_TYPES.includes(mapping.mondayColumnType) && mapping.mondayColumnType !== this.mapFieldType(field.type)) {
+        // Field retargeted to a text column by the user
+        const text = this.toDisplayText(field);
+        value = text && mapping.mondayColumnType === 'long-text' ? { text } : text;
+      } else {
+        const transform = mapping.transformationRule || this.getTransformationRule(field.type, userMapping);
+        value = transform ? transform(field.value) : field.value;
+      }
 
       if (value !== null && value !== undefined) {
         // Use the Monday column ID from mapping if available
@@ -187,20 +295,77 @@ export class FieldMapper {
       }
     }
 
+    for (const columnId of Object.keys(mergedLines)) {
+      const mapping = fieldMappings.find(m => m.mondayColumn === columnId);
+      columnValues[columnId] = mapping?.mondayColumnType === 'text'
+        ? mergedLines[columnId].join('; ')
+        : { text: mergedLines[columnId].join('\n') };
+    }
+
     return columnValues;
   }
 
   /**
-   * Transform standard ClickUp task fields to Monday item properties
+   * Human-readable form of a task's custom field value, for text columns
    */
-  static transformStandardFields(task: ClickUpTask): {
+  static toDisplayText(field: any): string | null {
+    const value = field.value;
+    if (value === null || value === undefined || value === '') return null;
+
+    const options: any[] = field.type_config?.options || [];
+
+    switch (field.type) {
+      case 'drop_down': {
+        const option = options.find(o => o.id === value || o.orderindex?.toString() === value.toString());
+        return option?.name || value.toString();
+      }
+      case 'labels': {
+        const ids = Array.isArray(value) ? value : [value];
+        return ids
+          .map(id => {
+            const option = options.find(o => o.id === id);
+            return option?.label || option?.name || id.toString();
+          })
+          .join(', ');
+      }
+      case 'users': {
+        const users = Array.isArray(value) ? value : [value];
+        return users.map((u: any) => u.username || u.email || u.id).join(', ');
+      }
+      case 'date': {
+        const date = new Date(parseInt(typeof value === 'object' ? value.date : value));
+        return isNaN(date.getTime()) ? null : date.toISOString().split('T')[0];
+      }
+      case 'checkbox':
+        return value === true || value === 'true' ? 'Yes' : 'No';
+      case 'location':
+        return typeof value === 'object' ? value.formatted_address || value.address || null : value.toString();
+      default:
+        return typeof value === 'object' ? value.name || JSON.stringify(value) : value.toString();
+    }
+  }
+
+  /**
+   * Transform standard ClickUp task fields to Monday item properties.
+   * With a status label map, status and priority go to the reconciled columns;
+   * assignees are only written when the board's people column is given.
+   */
+  static transformStandardFields(
+    task: ClickUpTask,
+    userMapping?: UserMapping,
+    statusMap?: StatusLabelMap,
+    peopleColumnId?: string
+  ): {
     name: string;
     columnValues: Record<string, any>;
   } {
     const columnValues: Record<string, any> = {};
 
     // Map status
-    if (task.status) {
+    if (task.status && statusMap) {
+      columnValues[statusMap.getColumnId('status') || 'status'] =
+        statusMap.toMondayValue('status', task.status.status);
+    } else if (task.status) {
       columnValues['status'] = {
         label: task.status.status,
       };
@@ -214,18 +379,19 @@ export class FieldMapper {
       };
     }
 
-    // Map assignees
-    if (task.assignees && task.assignees.length > 0) {
-      columnValues['people'] = {
-        personsAndTeams: task.assignees.map(assignee => ({
-          id: assignee.id,
-          kind: 'person',
-        })),
-      };
+    // Map assignees that have a Monday user
+    if (peopleColumnId && userMapping && task.assignees && task.assignees.length > 0) {
+      const people = userMapping.toPeopleValue(task.assignees);
+      if (people) {
+        columnValues[peopleColumnId] = people;
+      }
     }
 
     // Map priority
-    if (task.priority) {
+    if (task.priority && statusMap) {
+      columnValues[statusMap.getColumnId('priority') || 'priority'] =
+        statusMap.toMondayValue('priority', task.priority.id);
+    } else if (task.priority) {
       const priorityMap: Record<string, string> = {
         '1': 'Urgent',
         '2': 'High',
@@ -250,6 +416,37 @@ export class FieldMapper {
     };
   }
 
+  /**
+   * Timeline and time estimate values of a task. A timeline needs both a
+   * start and a due date; the estimate is in hours.
+   */
+  static transformTimeFields(task: ClickUpTask): {
+    timeline?: { from: string; to: string };
+    timeEstimate?: number;
+  } {
+    const values: { timeline?: { from: string; to: string }; timeEstimate?: number } = {};
+
+    if (task.start_date && task.due_date) {
+      const start = new Date(parseInt(task.start_date)).toISOString().split('T')[0];
+      const due = new Date(parseInt(task.due_date)).toISOString().split('T')[0];
+      // Monday rejects a timeline that ends before it starts
+      values.timeline = start <= due ? { from: start, to: due } : { from: due, to: start };
+    }
+
+    if (task.time_estimate) {
+      values.timeEstimate = FieldMapper.toHours(task.time_estimate);
+    }
+
+    return values;
+  }
+
+  /**
+   * Milliseconds to hours, to two decimals
+   */
+  static toHours(milliseconds: number): number {
+    return Math.round(milliseconds / 36000) / 100;
+  }
+
   /**
    * Create Monday column settings for a ClickUp field
    */
@@ -331,6 +528,36 @@ export class FieldMapper {
   }
 }
 
+const FIELD_MAPPING_ACTIONS: FieldMappingAction[] = ['create', 'skip', 'existing', 'merge'];
+
+/**
+ * Check field-mapping overrides from a request; returns an error message or null
+ */
+export const validateFieldMappingOverrides = (overrides: any): string | null => {
+  if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    return 'customFieldMapping must be an object keyed by ClickUp field ID';
+  }
+
+  for (const fieldId of Object.keys(overrides)) {
+    const override = overrides[fieldId];
+
+    if (!override || !FIELD_MAPPING_ACTIONS.includes(override.action)) {
+      return `Field ${fieldId}: action must be one of ${FIELD_MAPPING_ACTIONS.join(', ')}`;
+    }
+    if (override.action === 'existing' && !override.mondayColumnId) {
+      return `Field ${fieldId}: mondayColumnId is required to map onto an existing column`;
+    }
+    if (override.action === 'merge' && !override.columnTitle) {
+      return `Field ${fieldId}: columnTitle is required to merge fields into one column`;
+    }
+    if (override.action === 'merge' && override.columnType && !TEXT_COLUMN_TYPES.includes(override.columnType)) {
+      return `Field ${fieldId}: merged fields can only go into a text or long-text column`;
+    }
+  }
+
+  return null;
+};
+
 /**
  * Helper to create default Monday columns for a new board
  */
@@ -346,17 +573,3 @@ export const getDefaultMondayColumns = (): Array<{
     { title: 'Notes', type: 'long-text' },
   ];
 };
-
-/**
- * Map ClickUp task description to Monday item update
- */
-export const mapDescriptionToUpdate = (description: string): string => {
-  if (!description) return '';
-
-  // Convert ClickUp markdown to Monday-compatible markdown
-  // Monday supports basic markdown but has some differences
-  return description
-    .replace(/\[([^\]]+)\]\(clickup:\/\/[^\)]+\)/g, '$1') // Remove ClickUp internal links
-    .replace(/!\[([^\]]*)\]\(([^\)]+)\)/g, '[Image: $1]($2)') // Convert images
-    .trim();
-};
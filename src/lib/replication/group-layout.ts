@@ -0,0 +1,128 @@
+import { MondayAPI } from '@/lib/api/monday';
+import { TTLCache } from '@/lib/utils/cache';
+import { FieldMapper } from './field-mapper';
+import type { ClickUpList, ClickUpTask } from '@/types/clickup';
+import type { MondayBoard } from '@/types/monday';
+import type { GroupByOption, ReplicationOptions } from '@/types';
+
+export const GROUP_BY_OPTIONS: GroupByOption[] = ['none', 'status', 'tag', 'assignee', 'dropdown'];
+
+/**
+ * Check the grouping options from a request; returns an error message or null.
+ * Grouping spreads items over many groups, so it can't be combined with a fixed group.
+ */
+export const validateGroupByOptions = (
+  groupBy: any,
+  groupByFieldId?: string,
+  fixedGroup?: boolean
+): string | null => {
+  if (!groupBy || groupBy === 'none') return null;
+
+  if (!GROUP_BY_OPTIONS.includes(groupBy)) {
+    return `groupBy must be one of: ${GROUP_BY_OPTIONS.join(', ')}`;
+  }
+  if (groupBy === 'dropdown' && !groupByFieldId) {
+    return 'groupByFieldId is required to group by a dropdown field';
+  }
+  if (fixedGroup) {
+    return 'groupBy cannot be combined with a single target group';
+  }
+
+  return null;
+};
+
+// Monday caps group titles at 255 characters
+const MAX_GROUP_TITLE = 255;
+
+/**
+ * Title of the group a task belongs in. Tasks without a value go into a
+ * catch-all group; with several tags or assignees the first one decides.
+ */
+export const getGroupTitle = (
+  task: ClickUpTask,
+  groupBy: GroupByOption,
+  groupByFieldId?: string
+): string | null => {
+  switch (groupBy) {
+    case 'status':
+      return task.status?.status || 'No status';
+    case 'tag':
+      return task.tags?.[0]?.name || 'No tag';
+    case 'assignee': {
+      const assignee = task.assignees?.[0];
+      return assignee ? assignee.username || assignee.email : 'Unassigned';
+    }
+    case 'dropdown': {
+      const field = task.custom_fields?.find(f => f.id === groupByFieldId);
+      if (!field) return null;
+      return FieldMapper.toDisplayText(field) || `No ${field.name}`;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Places replicated items into one Monday group per ClickUp status, tag,
+ * assignee or dropdown value. Groups are matched by title, so reruns and
+ * boards that already have them reuse the existing groups.
+ */
+export class GroupLayout {
+  private monday: MondayAPI;
+  private boardId: number;
+  private groupBy: GroupByOption;
+  private groupByFieldId?: string;
+  private groupIds = new TTLCache<string>();
+  private lastGroupId?: string;
+
+  constructor(monday: MondayAPI, board: MondayBoard, options: ReplicationOptions) {
+    this.monday = monday;
+    this.boardId = parseInt(board.id);
+    this.groupBy = options.groupBy || 'none';
+    this.groupByFieldId = options.groupByFieldId;
+
+    for (const group of board.groups || []) {
+      if (!group.archived && !group.deleted) {
+        this.groupIds.set(normalizeTitle(group.title), group.id);
+      }
+    }
+  }
+
+  /**
+   * Create the status groups up front, in ClickUp's order, so the board reads
+   * top to bottom like the list's workflow
+   */
+  async prepare(list: ClickUpList): Promise<void> {
+    if (this.groupBy !== 'status') return;
+
+    const statuses = [...(list.statuses || [])].sort((a, b) => a.orderindex - b.orderindex);
+    for (const status of statuses) {
+      await this.ensureGroup(status.status);
+    }
+  }
+
+  /**
+   * Group ID for a task, creating the group the first time it's needed.
+   * Undefined leaves the item in the board's default group.
+   */
+  async getGroupId(task: ClickUpTask): Promise<string | undefined> {
+    const title = getGroupTitle(task, this.groupBy, this.groupByFieldId);
+    return title ? this.ensureGroup(title) : undefined;
+  }
+
+  /**
+   * The lookup is shared so tasks migrating in parallel don't create the same group twice
+   */
+  private ensureGroup(rawTitle: string): Promise<string> {
+    const title = rawTitle.trim().substring(0, MAX_GROUP_TITLE) || 'Untitled';
+
+    return this.groupIds.getOrLoad(normalizeTitle(title), async () => {
+      const group = await this.monday.createGroup(this.boardId, title, this.lastGroupId);
+      this.lastGroupId = group.id;
+      console.log(`✓ Created group: ${group.title}`);
+      return group.id;
+    });
+  }
+}
+
+const normalizeTitle = (title: string): string => title.trim().toLowerCase();
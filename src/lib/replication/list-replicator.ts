@@ -1,11 +1,35 @@
 import { ClickUpAPI } from '@/lib/api/clickup';
 import { MondayAPI } from '@/lib/api/monday';
 import { getServiceSupabase } from '@/lib/db/supabase';
-import { FieldMapper, mapDescriptionToUpdate } from './field-mapper';
+import {
+  FieldMapper,
+  TIMELINE_COLUMN,
+  TIME_ESTIMATE_COLUMN,
+  TIME_TRACKED_COLUMN,
+  DESCRIPTION_COLUMN,
+  ASSIGNEES_COLUMN,
+} from './field-mapper';
+import { ReplicationPlanner } from './replication-planner';
+import { UserMapper, UserMapping } from './user-mapper';
+import { StatusReconciler, StatusLabelMap, loadStatusLabelMap } from './status-mapper';
+import { GroupLayout } from './group-layout';
+import { ChecklistMigrator } from './checklist-migrator';
+import { RelationMigrator } from './relation-migrator';
+import { CommentMigrator } from './comment-migrator';
+import { markdownToMondayHtml, markdownToPlainText } from './markdown-converter';
 import { BatchProcessor, BatchTask } from '@/lib/sync/batch-processor';
-import type { ClickUpTask, ClickUpCustomField, ClickUpAttachment, ClickUpComment } from '@/types/clickup';
-import type { MondayBoard, MondayItem, FieldMapping } from '@/types/monday';
-import type { ReplicationOptions } from '@/types';
+import { JobControl, JobHaltedError } from '@/lib/sync/job-control';
+import { generateFileHash } from '@/lib/utils/hash';
+import { escapeHtml } from '@/lib/utils/html';
+import { TTLCache } from '@/lib/utils/cache';
+import type {
+  ClickUpTask,
+  ClickUpCustomField,
+  ClickUpAttachment,
+  ClickUpTimeEntry,
+} from '@/types/clickup';
+import type { MondayBoard, MondayColumn, MondayColumnType, MondayItem, FieldMapping } from '@/types/monday';
+import type { ReplicationOptions, ReplicationCheckpoint, ReplicationPlan, FieldMappingOverride } from '@/types';
 
 export interface ReplicationResult {
   success: boolean;
@@ -14,44 +38,290 @@ export interface ReplicationResult {
   tasksFailed: number;
   filesTransferred: number;
   commentsMigrated: number;
+  itemsLinked: number;
   errors: string[];
+  plan?: ReplicationPlan;
 }
 
+interface ResumeState {
+  boardId: string | null;
+  groupId: string | null;
+  fieldMappings: any[];
+  migratedTaskIds: Set<string>;
+}
+
+// Text column for assignees and users fields with no matching Monday user
+const UNMATCHED_PEOPLE_COLUMN = 'ClickUp People';
+
+// Monday caps long-text values
+const MAX_LONG_TEXT = 2000;
+
 export class ListReplicator {
   private clickup: ClickUpAPI;
   private monday: MondayAPI;
   private replicationId: string;
   private userId: string;
+  private jobControl?: JobControl;
+  private subtasksByParent = new Map<string, ClickUpTask[]>();
+  private groupId?: string;
+  private userMapping?: UserMapping;
+  private columnIds = new TTLCache<string>();
+  private createdItems = new Map<string, MondayItem>();
+  private statusMap?: StatusLabelMap;
+  private groupLayout?: GroupLayout;
+  private checklistMigrator?: ChecklistMigrator;
+  private commentMigrator: CommentMigrator;
+  private commentsMigrated = 0;
 
+  /**
+   * Pass the sync job's ID when running from the queue so the replication
+   * stops between tasks once that job is paused or cancelled.
+   */
   constructor(
     clickupToken: string,
     mondayToken: string,
     replicationId: string,
-    userId: string
+    userId: string,
+    jobId?: string
   ) {
     this.clickup = new ClickUpAPI(clickupToken);
     this.monday = new MondayAPI(mondayToken);
     this.replicationId = replicationId;
     this.userId = userId;
+    this.jobControl = jobId ? new JobControl(jobId) : undefined;
+    this.commentMigrator = new CommentMigrator(this.clickup, this.monday, replicationId);
   }
 
   /**
-   * Replicate a ClickUp list to a new Monday board
+   * Replicate a ClickUp list to a new Monday board. Replicating into an
+   * existing board goes through resume(), with the board recorded on the
+   * replication by the start route.
    */
   async replicate(
     clickupListId: string,
     mondayBoardName: string,
     options: ReplicationOptions
   ): Promise<ReplicationResult> {
+    return this.run(clickupListId, mondayBoardName, options, null);
+  }
+
+  /**
+   * Resume a previously started replication from its last checkpoint,
+   * reusing its board and field mappings and skipping already migrated tasks.
+   * On a completed replication this picks up tasks created since.
+   */
+  async resume(): Promise<ReplicationResult> {
+    const db = getServiceSupabase();
+
+    const { data: replication, error } = (await db
+      .from('list_replications')
+      .select('*')
+      .eq('id', this.replicationId)
+      .single()) as { data: any; error: any };
+
+    if (error || !replication) {
+      throw new Error(`Replication ${this.replicationId} not found`);
+    }
+
+    const { data: savedMappings } = (await db
+      .from('field_mappings')
+      .select('*')
+      .eq('replication_id', this.replicationId)) as { data: any[] | null };
+
+    // Any task mapping means the item exists, whatever update sync has since marked it
+    const { data: migratedTasks } = (await db
+      .from('task_mappings')
+      .select('clickup_task_id')
+      .eq('replication_id', this.replicationId)
+      .eq('entity_type', 'task')) as { data: any[] | null };
+
+    const options: ReplicationOptions = {
+      mode: replication.replication_mode,
+      ...replication.options,
+    };
+
+    console.log(
+      `Resuming replication ${this.replicationId} from checkpoint ${replication.checkpoint?.stage || 'start'}...`
+    );
+
+    return this.run(
+      replication.clickup_list_id,
+      replication.monday_board_name || replication.clickup_list_name || replication.clickup_list_id,
+      options,
+      {
+        boardId: replication.monday_board_id,
+        groupId: replication.monday_group_id,
+        fieldMappings: savedMappings || [],
+        migratedTaskIds: new Set((migratedTasks || []).map(t => t.clickup_task_id)),
+      }
+    );
+  }
+
+  /**
+   * Replicate tasks created in the list since the replication completed, e.g.
+   * from a taskCreated webhook. Reuses the board, field mappings and saved
+   * status labels instead of resuming the whole list; a replication that
+   * hasn't completed yet is resumed instead.
+   */
+  async replicateTasks(taskIds: string[]): Promise<ReplicationResult> {
+    const db = getServiceSupabase();
+
+    const { data: replication, error } = (await db
+      .from('list_replications')
+      .select('*')
+      .eq('id', this.replicationId)
+      .single()) as { data: any; error: any };
+
+    if (error || !replication) {
+      throw new Error(`Replication ${this.replicationId} not found`);
+    }
+
+    if (replication.status !== 'completed' || !replication.monday_board_id) {
+      return this.resume();
+    }
+
     const result: ReplicationResult = {
       success: true,
+      boardId: replication.monday_board_id,
       tasksCreated: 0,
       tasksFailed: 0,
       filesTransferred: 0,
       commentsMigrated: 0,
+      itemsLinked: 0,
       errors: [],
     };
 
+    const { data: migratedTasks } = (await db
+      .from('task_mappings')
+      .select('clickup_task_id, monday_item_id')
+      .eq('replication_id', this.replicationId)
+      .eq('entity_type', 'task')
+      .in('clickup_task_id', taskIds)) as { data: any[] | null };
+
+    const itemIdsByTask = new Map<string, string>(
+      (migratedTasks || []).map(mapping => [mapping.clickup_task_id, mapping.monday_item_id])
+    );
+    const migratedTaskIds = new Set(itemIdsByTask.keys());
+
+    // A task deleted again before the job ran is skipped
+    const fetched = await Promise.allSettled(
+      taskIds.filter(id => !migratedTaskIds.has(id)).map(id => this.clickup.getTask(id))
+    );
+    const newTasks = fetched
+      .filter((outcome): outcome is PromiseFulfilledResult<ClickUpTask> => outcome.status === 'fulfilled')
+      .map(outcome => outcome.value)
+      .filter(task => task.list?.id === replication.clickup_list_id);
+
+    if (newTasks.length === 0) {
+      console.log('No new tasks to replicate');
+      return result;
+    }
+
+    const options: ReplicationOptions = {
+      mode: replication.replication_mode,
+      ...replication.options,
+    };
+    if (options.mode === 'structure_only') {
+      return result;
+    }
+
+    const boardId = parseInt(replication.monday_board_id);
+    this.groupId = replication.monday_group_id || undefined;
+    this.statusMap = await loadStatusLabelMap(this.replicationId);
+
+    if (options.preserveAssignees) {
+      this.userMapping = await new UserMapper(this.clickup, this.monday, this.userId).buildMapping();
+    }
+    if (options.checklists && options.checklists !== 'none') {
+      this.checklistMigrator = new ChecklistMigrator(this.monday, this.replicationId, this.userMapping);
+    }
+    if (options.groupBy && options.groupBy !== 'none') {
+      this.groupLayout = new GroupLayout(this.monday, await this.monday.getBoard(boardId), options);
+    }
+
+    let fieldMappings: FieldMapping[] = [];
+    if (options.mode !== 'data_only') {
+      const { data: savedMappings } = (await db
+        .from('field_mappings')
+        .select('*')
+        .eq('replication_id', this.replicationId)) as { data: any[] | null };
+
+      fieldMappings = this.toFieldMappings(savedMappings || []);
+    }
+
+    // New subtasks go under their parent's item once the parent has one
+    const parents = newTasks.filter(task => !options.includeSubtasks || !task.parent);
+    const subtasks = newTasks.filter(task => options.includeSubtasks && task.parent);
+
+    console.log(`Replicating ${newTasks.length} new task(s) into board ${boardId}...`);
+    const batchResult = await this.migrateTasks(parents, boardId, fieldMappings, options, migratedTaskIds);
+
+    if (batchResult.halted) {
+      throw new JobHaltedError(batchResult.halted, this.jobControl!.jobId);
+    }
+
+    result.tasksCreated = batchResult.successful;
+    result.tasksFailed = batchResult.failed;
+
+    for (const subtask of subtasks) {
+      const parentItem = this.createdItems.get(subtask.parent!);
+      const parentItemId = parentItem?.id || itemIdsByTask.get(subtask.parent!);
+      if (!parentItemId) {
+        console.log(`↳ Skipped subtask ${subtask.name}; its parent task has no item`);
+        continue;
+      }
+
+      try {
+        await this.migrateSubtask(subtask, parseInt(parentItemId), fieldMappings);
+        result.tasksCreated++;
+      } catch (error: any) {
+        console.error(`Error migrating subtask ${subtask.name}:`, error.message);
+        result.tasksFailed++;
+      }
+    }
+    result.commentsMigrated = this.commentsMigrated;
+
+    const relations = await new RelationMigrator(this.monday, this.userId, boardId).migrate(parents);
+    result.itemsLinked = relations.itemsLinked;
+
+    if (result.tasksFailed > 0) {
+      // Tasks that made it have mappings, so the retry only picks up the rest
+      throw new Error(`${result.tasksFailed} of ${newTasks.length} new tasks failed to replicate`);
+    }
+
+    console.log(`✓ Replicated ${result.tasksCreated} new task(s)`);
+    return result;
+  }
+
+  /**
+   * Run the replication steps, picking up from resume state when provided
+   */
+  private async run(
+    clickupListId: string,
+    mondayBoardName: string,
+    options: ReplicationOptions,
+    resumeState: ResumeState | null
+  ): Promise<ReplicationResult> {
+    const result: ReplicationResult = {
+      success: true,
+      tasksCreated: 0,
+      tasksFailed: 0,
+      filesTransferred: 0,
+      commentsMigrated: 0,
+      itemsLinked: 0,
+      errors: [],
+    };
+
+    if (options.dryRun) {
+      console.log(`Planning replication of ClickUp list ${clickupListId} (dry run)...`);
+      const planner = new ReplicationPlanner(this.clickup);
+      const existingColumns = options.mondayBoardId
+        ? (await this.monday.getBoard(parseInt(options.mondayBoardId))).columns || []
+        : [];
+      result.plan = await planner.plan(clickupListId, mondayBoardName, options, existingColumns);
+      return result;
+    }
+
     try {
       console.log(`Starting replication of ClickUp list ${clickupListId}...`);
       await this.updateReplicationStatus('creating');
@@ -63,23 +333,80 @@ export class ListReplicator {
         ? await this.clickup.getCustomFields(clickupListId)
         : [];
 
-      // Step 2: Create Monday board
-      console.log(`Creating Monday board: ${mondayBoardName}...`);
-      const board = await this.monday.createBoard(mondayBoardName);
+      // Step 2: Create Monday board, or reuse the one recorded on the replication
+      let board: MondayBoard;
+      if (resumeState?.boardId) {
+        console.log(`Reusing Monday board ${resumeState.boardId}...`);
+        board = await this.monday.getBoard(parseInt(resumeState.boardId));
+      } else {
+        console.log(`Creating Monday board: ${mondayBoardName}...`);
+        board = await this.monday.createBoard(mondayBoardName);
+
+        // Update replication record with board info
+        await this.updateReplication({
+          monday_board_id: board.id,
+          monday_board_name: board.name,
+          clickup_list_name: listData.name,
+        });
+        await this.saveCheckpoint({ stage: 'board_created' });
+      }
       result.boardId = board.id;
+      this.groupId = resumeState?.groupId || undefined;
 
-      // Update replication record with board info
-      await this.updateReplication({
-        monday_board_id: board.id,
-        monday_board_name: board.name,
-        clickup_list_name: listData.name,
-      });
+      if (this.groupId && board.groups && !board.groups.some(group => group.id === this.groupId)) {
+        throw new Error(`Group ${this.groupId} not found on board ${board.name}`);
+      }
+
+      // create_board doesn't return columns or groups, so load them for the steps below
+      const boardDetails = board.columns ? board : await this.monday.getBoard(parseInt(board.id));
+      const boardColumns = boardDetails.columns || [];
+
+      // Spread items over one group per status, tag, assignee or dropdown value
+      if (options.groupBy && options.groupBy !== 'none') {
+        console.log(`Grouping items by ${options.groupBy}...`);
+        this.groupLayout = new GroupLayout(this.monday, boardDetails, options);
+        await this.groupLayout.prepare(listData);
+      }
+
+      // Give the board status and priority labels for every ClickUp value,
+      // reusing any default Status column
+      console.log('Reconciling statuses and priorities...');
+      this.statusMap = await new StatusReconciler(this.monday, this.replicationId).reconcile(
+        parseInt(board.id),
+        listData,
+        boardColumns
+      );
+
+      // Match people before mapping fields so users columns can be transformed
+      if (options.preserveAssignees && options.mode !== 'structure_only') {
+        console.log('Matching ClickUp users to Monday users...');
+        this.userMapping = await new UserMapper(this.clickup, this.monday, this.userId).buildMapping();
+      }
+
+      if (options.checklists && options.checklists !== 'none') {
+        this.checklistMigrator = new ChecklistMigrator(this.monday, this.replicationId, this.userMapping);
+      }
 
       // Step 3: Create field mappings if not data_only mode
       let fieldMappings: FieldMapping[] = [];
       if (options.mode !== 'data_only') {
-        console.log('Creating field mappings...');
-        fieldMappings = await this.createFieldMappings(customFields, parseInt(board.id));
+        const savedMappings = resumeState?.fieldMappings || [];
+        const mappedFieldIds = new Set(savedMappings.map(m => m.clickup_field_id));
+        const unmappedFields = customFields.filter(field => !mappedFieldIds.has(field.id));
+
+        fieldMappings = this.toFieldMappings(savedMappings);
+
+        if (unmappedFields.length > 0) {
+          console.log('Creating field mappings...');
+          fieldMappings.push(...await this.createFieldMappings(
+            unmappedFields,
+            parseInt(board.id),
+            boardColumns,
+            options.customFieldMapping || {},
+            !!resumeState?.boardId
+          ));
+        }
+        await this.saveCheckpoint({ stage: 'fields_mapped' });
       }
 
       // Step 4: Migrate tasks if not structure_only mode
@@ -87,30 +414,74 @@ export class ListReplicator {
         console.log('Fetching tasks from ClickUp...');
         await this.updateReplicationStatus('migrating');
 
-        const tasks = await this.clickup.getListTasks(clickupListId);
-        console.log(`Found ${tasks.length} tasks to migrate`);
+        // Subtasks are created as subitems under their parent, not as items of their own
+        const listTasks = await this.clickup.getAllListTasks(clickupListId);
+        this.subtasksByParent = groupSubtasksByParent(listTasks);
+        const allTasks = listTasks.filter(task => !options.includeSubtasks || !task.parent);
+        const migratedTaskIds = resumeState?.migratedTaskIds || new Set<string>();
+        const tasks = allTasks.filter(task => !migratedTaskIds.has(task.id));
+        const alreadyMigrated = allTasks.length - tasks.length;
+
+        console.log(
+          alreadyMigrated > 0
+            ? `Found ${tasks.length} tasks to migrate (${alreadyMigrated} already migrated)`
+            : `Found ${tasks.length} tasks to migrate`
+        );
 
         // Update total count
-        await this.updateProgress(0, tasks.length);
+        await this.updateProgress(alreadyMigrated, allTasks.length);
 
         // Process tasks using batch processor
         const batchResult = await this.migrateTasks(
           tasks,
           parseInt(board.id),
           fieldMappings,
-          options
+          options,
+          migratedTaskIds,
+          async (processed, total) => {
+            await this.updateProgress(alreadyMigrated + processed, alreadyMigrated + total);
+            await this.saveCheckpoint({
+              stage: 'migrating',
+              lastTaskId: tasks[processed - 1]?.id,
+              processedTasks: alreadyMigrated + processed,
+            });
+          }
         );
 
         result.tasksCreated = batchResult.successful;
         result.tasksFailed = batchResult.failed;
+        result.commentsMigrated = this.commentsMigrated;
+
+        if (batchResult.halted) {
+          throw new JobHaltedError(batchResult.halted, this.jobControl!.jobId);
+        }
+
+        // Step 5: Dependencies and linked tasks, now that every item they point to exists
+        console.log('Linking dependencies and linked tasks...');
+        const relations = await new RelationMigrator(this.monday, this.userId, parseInt(board.id)).migrate(listTasks);
+        result.itemsLinked = relations.itemsLinked;
+        if (relations.unresolved > 0) {
+          console.log(`↳ ${relations.unresolved} link(s) left out; their tasks aren't replicated as items on a connected board`);
+        }
       }
 
       // Mark as completed
+      await this.saveCheckpoint({ stage: 'completed' });
       await this.updateReplicationStatus('completed', new Date().toISOString());
       console.log('Replication completed successfully!');
 
       return result;
     } catch (error: any) {
+      if (error instanceof JobHaltedError) {
+        // Progress and checkpoint are saved, so resuming continues from here;
+        // after a lost lease the status belongs to the worker that took over
+        console.log(`Replication stopped: ${error.message}`);
+        if (error.reason !== 'lease_lost') {
+          await this.updateReplicationStatus(error.reason);
+        }
+        throw error;
+      }
+
       console.error('Replication failed:', error);
       result.success = false;
       result.errors.push(error.message);
@@ -121,29 +492,75 @@ export class ListReplicator {
   }
 
   /**
-   * Create field mappings for custom fields
+   * Field mappings saved by an earlier run, leaving out skipped fields
+   */
+  private toFieldMappings(savedMappings: any[]): FieldMapping[] {
+    return savedMappings
+      .filter(m => m.mapping_status !== 'skipped' && m.monday_column_id)
+      .map(m => ({
+        clickupField: m.clickup_field_name,
+        clickupFieldType: m.clickup_field_type,
+        mondayColumn: m.monday_column_id,
+        mondayColumnType: m.monday_column_type,
+        transformationRule: FieldMapper.getTransformationRule(m.clickup_field_type, this.userMapping),
+        merged: m.transformation_rule?.merge === true,
+      }));
+  }
+
+  /**
+   * Create field mappings for custom fields, applying the user's overrides
+   * (skip, merge, or map onto an existing column). On a board that already
+   * existed, columns with the same title and a compatible type are reused.
    */
   private async createFieldMappings(
     customFields: ClickUpCustomField[],
-    boardId: number
+    boardId: number,
+    boardColumns: MondayColumn[],
+    overrides: Record<string, FieldMappingOverride>,
+    reuseMatchingColumns: boolean
   ): Promise<FieldMapping[]> {
     const mappings: FieldMapping[] = [];
     const db = getServiceSupabase();
+    const activeColumns = boardColumns.filter(col => !col.archived);
 
     for (const field of customFields) {
       try {
-        // Map ClickUp field type to Monday column type
-        const mondayColumnType = FieldMapper.mapFieldType(field.type);
-        const columnName = FieldMapper.sanitizeColumnName(field.name);
-        const columnSettings = FieldMapper.createColumnSettings(field);
-
-        // Create Monday column
-        const column = await this.monday.createColumn(
-          boardId,
-          columnName,
-          mondayColumnType,
-          columnSettings
-        );
+        const target = FieldMapper.resolveFieldTarget(field, overrides[field.id]);
+
+        if (target.action === 'skip') {
+          await db.from('field_mappings').insert({
+            replication_id: this.replicationId,
+            clickup_field_id: field.id,
+            clickup_field_name: field.name,
+            clickup_field_type: field.type,
+            mapping_status: 'skipped',
+          } as any);
+          console.log(`↳ Skipped field: ${field.name}`);
+          continue;
+        }
+
+        let column: MondayColumn | undefined;
+        if (target.action === 'existing') {
+          column = activeColumns.find(col => col.id === target.mondayColumnId);
+          if (!column) {
+            throw new Error(`Column ${target.mondayColumnId} not found on board ${boardId}`);
+          }
+        } else if (target.action === 'merge') {
+          // Fields merged under the same title share the first one's column
+          column = FieldMapper.findMatchingColumn(activeColumns, target.title, [target.type]);
+        } else if (reuseMatchingColumns) {
+          // Without an explicit type, a text column of the same name takes the values too
+          column = FieldMapper.findMatchingColumn(
+            activeColumns,
+            target.title,
+            overrides[field.id]?.columnType ? [target.type] : FieldMapper.getCompatibleColumnTypes(field.type)
+          );
+        }
+
+        if (!column) {
+          column = await this.monday.createColumn(boardId, target.title, target.type, target.settings);
+          activeColumns.push(column);
+        }
 
         // Create field mapping
         const mapping: FieldMapping = {
@@ -151,7 +568,8 @@ export class ListReplicator {
           clickupFieldType: field.type,
           mondayColumn: column.id,
           mondayColumnType: column.type,
-          transformationRule: FieldMapper.getTransformationRule(field.type),
+          transformationRule: FieldMapper.getTransformationRule(field.type, this.userMapping),
+          merged: target.action === 'merge',
         };
 
         // Save to database
@@ -163,7 +581,8 @@ export class ListReplicator {
           monday_column_id: column.id,
           monday_column_name: column.title,
           monday_column_type: column.type,
-          mapping_status: 'auto',
+          mapping_status: overrides[field.id] ? 'manual' : 'auto',
+          transformation_rule: mapping.merged ? { merge: true } : null,
         } as any);
 
         mappings.push(mapping);
@@ -184,7 +603,9 @@ export class ListReplicator {
     tasks: ClickUpTask[],
     boardId: number,
     fieldMappings: FieldMapping[],
-    options: ReplicationOptions
+    options: ReplicationOptions,
+    migratedTaskIds: Set<string>,
+    onProgress?: (processed: number, total: number) => Promise<void>
   ) {
     const batchProcessor = new BatchProcessor<ClickUpTask>(this.replicationId);
 
@@ -192,134 +613,264 @@ export class ListReplicator {
       tasks,
       10, // Batch size of 10 tasks
       async (task) => {
-        return await this.migrateTask(task, boardId, fieldMappings, options);
+        return await this.migrateTask(task, boardId, fieldMappings, options, migratedTaskIds);
       },
       {
         maxRetries: 3,
-        parallel: false, // Sequential to maintain order
+        parallel: options.parallel ?? false, // Sequential by default to keep board order
+        maxParallel: options.maxParallel,
+        rateLimitedClients: [this.clickup, this.monday],
         delayBetweenBatches: 500,
-        onProgress: async (processed, total) => {
-          await this.updateProgress(processed, total);
-        },
+        onProgress,
         onError: (error, task) => {
           console.error(`Error migrating task ${task.name}:`, error.message);
         },
+        jobControl: this.jobControl,
       }
     );
   }
 
   /**
-   * Migrate a single task
+   * Migrate a single task. A retry reuses the item an earlier attempt created,
+   * and steps after the mapping is recorded only log their failures, so a task
+   * never gets a second item.
    */
   private async migrateTask(
     task: ClickUpTask,
     boardId: number,
     fieldMappings: FieldMapping[],
-    options: ReplicationOptions
+    options: ReplicationOptions,
+    migratedTaskIds: Set<string>
   ): Promise<MondayItem> {
-    const db = getServiceSupabase();
+    const createdItem = this.createdItems.get(task.id);
+    if (createdItem && migratedTaskIds.has(task.id)) {
+      return createdItem;
+    }
 
     // Get full task details if needed
-    const fullTask = options.includeAttachments || options.includeComments
+    const fullTask = options.includeAttachments || options.includeComments || this.checklistMigrator
       ? await this.clickup.getTask(task.id)
       : task;
 
-    // Transform task data
-    const { name, columnValues } = FieldMapper.transformStandardFields(fullTask);
-    const customFieldValues = FieldMapper.transformCustomFieldValues(fullTask, fieldMappings);
-
-    // Merge column values
-    const allColumnValues = { ...columnValues, ...customFieldValues };
-
-    // Create Monday item
-    const item = await this.monday.createItem(
-      boardId,
-      name,
-      allColumnValues
-    );
+    const description = fullTask.markdown_description || fullTask.description;
+    const timeEntries = options.includeTimeTracking ? await this.clickup.getTaskTimeEntries(task.id) : [];
 
-    console.log(`✓ Created item: ${item.name}`);
+    const item = createdItem
+      || await this.createTaskItem(fullTask, boardId, fieldMappings, options, timeEntries);
 
     // Store task mapping
-    await db.from('task_mappings').insert({
-      replication_id: this.replicationId,
+    await this.saveTaskMapping({
       clickup_task_id: task.id,
       monday_item_id: item.id,
       clickup_parent_id: task.parent || null,
       task_data: fullTask,
-      sync_status: 'synced',
-      last_synced_at: new Date().toISOString(),
-    } as any);
+    });
+    migratedTaskIds.add(task.id);
 
-    // Handle description as an update/comment
-    if (fullTask.description && options.includeComments) {
-      const descriptionText = mapDescriptionToUpdate(fullTask.description);
-      if (descriptionText) {
-        await this.monday.createUpdate(parseInt(item.id), descriptionText);
-      }
+    const itemId = parseInt(item.id);
+
+    // Handle description as an update, unless it went into its column
+    if (description && options.includeComments && options.descriptionTarget !== 'column') {
+      await this.runFollowUp('post description', task, () => this.postDescription(description, itemId));
+    }
+
+    // Handle time entries
+    if (timeEntries.length > 0) {
+      await this.migrateTimeEntries(timeEntries, itemId);
     }
 
     // Handle attachments
     if (options.includeAttachments && fullTask.attachments?.length > 0) {
-      await this.transferAttachments(fullTask.attachments, item, fullTask.id);
+      await this.runFollowUp('transfer attachments', task, () =>
+        this.transferAttachments(fullTask.attachments, item, fullTask.id)
+      );
     }
 
     // Handle comments
     if (options.includeComments) {
-      const comments = await this.clickup.getTaskComments(task.id);
-      await this.migrateComments(comments, parseInt(item.id));
+      await this.runFollowUp('migrate comments', task, async () => {
+        this.commentsMigrated += await this.commentMigrator.migrate(task.id, itemId);
+      });
     }
 
     // Handle subtasks
     if (options.includeSubtasks && fullTask.parent === null) {
       // This is a parent task, check for subtasks
-      const allTasks = await this.clickup.getListTasks(fullTask.list.id);
-      const subtasks = allTasks.filter(t => t.parent === fullTask.id);
+      const subtasks = (this.subtasksByParent.get(fullTask.id) || []).filter(
+        t => !migratedTaskIds.has(t.id)
+      );
 
       for (const subtask of subtasks) {
-        await this.migrateSubtask(subtask, parseInt(item.id), boardId, fieldMappings, options);
+        await this.runFollowUp(`migrate subtask ${subtask.name}`, task, async () => {
+          await this.migrateSubtask(subtask, itemId, fieldMappings);
+          migratedTaskIds.add(subtask.id);
+        });
       }
     }
 
+    // Handle checklists
+    if (this.checklistMigrator && options.checklists) {
+      await this.runFollowUp('migrate checklists', task, async () => {
+        await this.checklistMigrator!.migrate(fullTask, itemId, options.checklists!);
+      });
+    }
+
     return item;
   }
 
   /**
-   * Migrate a subtask as a Monday subitem
+   * Create the Monday item for a task, creating the columns its values need
    */
-  private async migrateSubtask(
-    subtask: ClickUpTask,
-    parentItemId: number,
+  private async createTaskItem(
+    fullTask: ClickUpTask,
     boardId: number,
     fieldMappings: FieldMapping[],
-    options: ReplicationOptions
-  ): Promise<void> {
-    const db = getServiceSupabase();
+    options: ReplicationOptions,
+    timeEntries: ClickUpTimeEntry[]
+  ): Promise<MondayItem> {
+    // The people column is only looked up (or created) once a task has an assignee to put in it
+    const peopleColumnId = this.userMapping?.toPeopleValue(fullTask.assignees || [])
+      ? await this.getNamedColumnId(boardId, ASSIGNEES_COLUMN, 'people')
+      : undefined;
 
-    const { name, columnValues } = FieldMapper.transformStandardFields(subtask);
-    const customFieldValues = FieldMapper.transformCustomFieldValues(subtask, fieldMappings);
+    // Transform task data
+    const { name, columnValues } = FieldMapper.transformStandardFields(
+      fullTask,
+      this.userMapping,
+      this.statusMap,
+      peopleColumnId
+    );
+    const customFieldValues = FieldMapper.transformCustomFieldValues(fullTask, fieldMappings, this.userMapping);
+
+    // Merge column values
     const allColumnValues = { ...columnValues, ...customFieldValues };
 
-    // Create as subitem in Monday
-    const subitem = await this.monday.createSubitem(
-      parentItemId,
+    // People with no Monday user are kept as text so they aren't lost
+    const unmatchedPeople = this.userMapping?.describeUnmatched(fullTask);
+    if (unmatchedPeople) {
+      allColumnValues[await this.getNamedColumnId(boardId, UNMATCHED_PEOPLE_COLUMN, 'text')] = unmatchedPeople;
+    }
+
+    const description = fullTask.markdown_description || fullTask.description;
+    if (description && options.descriptionTarget === 'column') {
+      const text = markdownToPlainText(description);
+      allColumnValues[await this.getNamedColumnId(boardId, DESCRIPTION_COLUMN, 'long-text')] = {
+        text: text.length > MAX_LONG_TEXT ? `${text.substring(0, MAX_LONG_TEXT - 1)}…` : text,
+      };
+    }
+
+    // Time columns are created the first time a task has a value for them
+    const { timeline, timeEstimate } = FieldMapper.transformTimeFields(fullTask);
+    if (timeline && options.preserveDates) {
+      allColumnValues[await this.getNamedColumnId(boardId, TIMELINE_COLUMN, 'timeline')] = timeline;
+    }
+    if (timeEstimate) {
+      allColumnValues[await this.getNamedColumnId(boardId, TIME_ESTIMATE_COLUMN, 'numbers')] = timeEstimate.toString();
+    }
+
+    if (timeEntries.length > 0) {
+      const tracked = timeEntries.reduce((total, entry) => total + entry.duration, 0);
+      allColumnValues[await this.getNamedColumnId(boardId, TIME_TRACKED_COLUMN, 'numbers')] =
+        FieldMapper.toHours(tracked).toString();
+    }
+
+    // Create Monday item
+    const item = await this.monday.createItem(
+      boardId,
       name,
-      allColumnValues
+      allColumnValues,
+      this.groupLayout ? await this.groupLayout.getGroupId(fullTask) : this.groupId
     );
+    this.createdItems.set(fullTask.id, item);
+
+    console.log(`✓ Created item: ${item.name}`);
+    return item;
+  }
 
-    console.log(`  ↳ Created subitem: ${subitem.name}`);
+  /**
+   * Migrate a subtask as a Monday subitem
+   */
+  private async migrateSubtask(
+    subtask: ClickUpTask,
+    parentItemId: number,
+    fieldMappings: FieldMapping[]
+  ): Promise<void> {
+    // Subitems live on their own board, so the reconciled column IDs don't apply there;
+    // assignees are written once the subitem's board is known
+    const { name, columnValues } = FieldMapper.transformStandardFields(subtask, this.userMapping);
+    const customFieldValues = FieldMapper.transformCustomFieldValues(subtask, fieldMappings, this.userMapping);
+    const allColumnValues = { ...columnValues, ...customFieldValues };
+
+    // Create as subitem in Monday, unless an earlier attempt already did
+    let subitem = this.createdItems.get(subtask.id);
+    if (!subitem) {
+      subitem = await this.monday.createSubitem(
+        parentItemId,
+        name,
+        allColumnValues
+      );
+      this.createdItems.set(subtask.id, subitem);
+
+      console.log(`  ↳ Created subitem: ${subitem.name}`);
+    }
 
     // Store mapping
-    await db.from('task_mappings').insert({
-      replication_id: this.replicationId,
+    await this.saveTaskMapping({
       clickup_task_id: subtask.id,
       monday_item_id: subitem.id,
       clickup_parent_id: subtask.parent,
       monday_parent_id: parentItemId.toString(),
       task_data: subtask,
+    });
+
+    const people = this.userMapping?.toPeopleValue(subtask.assignees || []);
+    if (people) {
+      const subitemBoardId = parseInt(subitem.board.id);
+      const subitemId = parseInt(subitem.id);
+      await this.runFollowUp('set assignees', subtask, async () => {
+        await this.monday.changeMultipleColumnValues(subitemBoardId, subitemId, {
+          [await this.getNamedColumnId(subitemBoardId, ASSIGNEES_COLUMN, 'people')]: people,
+        });
+      });
+    }
+  }
+
+  /**
+   * Record which Monday item a task was replicated to
+   */
+  private async saveTaskMapping(mapping: {
+    clickup_task_id: string;
+    monday_item_id: string;
+    clickup_parent_id: string | null;
+    monday_parent_id?: string;
+    task_data: ClickUpTask;
+  }): Promise<void> {
+    const db = getServiceSupabase();
+
+    const { error } = (await db.from('task_mappings').insert({
+      replication_id: this.replicationId,
+      ...mapping,
       sync_status: 'synced',
       last_synced_at: new Date().toISOString(),
-    } as any);
+    } as any)) as { error: any };
+
+    if (error) {
+      throw new Error(
+        `Created item ${mapping.monday_item_id} for task ${mapping.clickup_task_id} but failed to record it: ${error.message}`
+      );
+    }
+  }
+
+  /**
+   * Run a step that follows item creation, logging rather than throwing its
+   * failure since a retry of the task can't undo the item
+   */
+  private async runFollowUp(step: string, task: ClickUpTask, run: () => Promise<void>): Promise<void> {
+    try {
+      await run();
+    } catch (error: any) {
+      console.error(`  ✗ Failed to ${step} for ${task.name}:`, error.message);
+    }
   }
 
   /**
@@ -333,12 +884,7 @@ export class ListReplicator {
     const db = getServiceSupabase();
 
     // Ensure file column exists
-    const board = await this.monday.getBoard(parseInt(item.board.id));
-    let fileColumn = board.columns?.find(col => col.type === 'file');
-
-    if (!fileColumn) {
-      fileColumn = await this.monday.createColumn(parseInt(item.board.id), 'Files', 'file');
-    }
+    const fileColumnId = await this.getFileColumnId(item.board.id);
 
     for (const attachment of attachments) {
       try {
@@ -348,63 +894,120 @@ export class ListReplicator {
 
         await this.monday.addFileToColumn(
           parseInt(item.id),
-          fileColumn.id,
+          fileColumnId,
           fileBuffer,
           attachment.title
         );
 
         // Log successful transfer
-        await db.from('file_transfers').insert({
-          job_id: this.replicationId,
+        const { error: logError } = (await db.from('file_transfers').insert({
+          job_id: this.jobControl?.jobId ?? null,
           clickup_task_id: clickupTaskId,
           monday_item_id: item.id,
+          monday_board_id: item.board.id,
           file_name: attachment.title,
           file_size: attachment.size,
+          file_hash: generateFileHash(fileBuffer),
           status: 'transferred',
           transferred_at: new Date().toISOString(),
-        } as any);
+        } as any)) as { error: any };
+
+        if (logError) {
+          console.error(`    ✗ Failed to record transfer of ${attachment.title}:`, logError.message);
+        }
 
         console.log(`    ✓ Transferred: ${attachment.title}`);
       } catch (error: any) {
         console.error(`    ✗ Failed to transfer ${attachment.title}:`, error.message);
 
-        await db.from('file_transfers').insert({
-          job_id: this.replicationId,
+        const { error: logError } = (await db.from('file_transfers').insert({
+          job_id: this.jobControl?.jobId ?? null,
           clickup_task_id: clickupTaskId,
           monday_item_id: item.id,
+          monday_board_id: item.board.id,
           file_name: attachment.title,
           file_size: attachment.size,
           status: 'failed',
           error_message: error.message,
-        } as any);
+        } as any)) as { error: any };
+
+        if (logError) {
+          console.error(`    ✗ Failed to record failed transfer of ${attachment.title}:`, logError.message);
+        }
       }
     }
   }
 
   /**
-   * Migrate comments from ClickUp to Monday updates
+   * Find or create the board's file column. The lookup is shared so tasks
+   * migrating in parallel don't each create a "Files" column.
    */
-  private async migrateComments(comments: ClickUpComment[], itemId: number): Promise<void> {
-    for (const comment of comments) {
-      try {
-        const commentText = comment.comment_text ||
-          comment.comment.map(c => c.text).join(' ');
+  private getFileColumnId(boardId: string): Promise<string> {
+    return this.columnIds.getOrLoad(`${boardId}:file`, async () => {
+      const board = await this.monday.getBoard(parseInt(boardId));
+      const fileColumn = board.columns?.find(col => col.type === 'file')
+        || await this.monday.createColumn(parseInt(boardId), 'Files', 'file');
+      return fileColumn.id;
+    });
+  }
 
-        if (commentText.trim()) {
-          await this.monday.createUpdate(itemId, commentText);
-          console.log(`  ↳ Migrated comment`);
-        }
+  /**
+   * Find or create a column by title and type, shared across parallel tasks
+   * like the file column
+   */
+  private getNamedColumnId(boardId: number, title: string, type: MondayColumnType): Promise<string> {
+    return this.columnIds.getOrLoad(`${boardId}:${title}:${type}`, async () => {
+      const board = await this.monday.getBoard(boardId);
+      const column = FieldMapper.findMatchingColumn(board.columns || [], title, [type])
+        || await this.monday.createColumn(boardId, title, type);
+      return column.id;
+    });
+  }
+
+  /**
+   * Post a description as a formatted update, with its inline images uploaded to the update
+   */
+  private async postDescription(description: string, itemId: number): Promise<void> {
+    const { html, images } = markdownToMondayHtml(description);
+    if (!html) return;
+
+    const update = await this.monday.createUpdate(itemId, html);
+
+    for (const image of images) {
+      const fileName = image.alt || image.url.split('?')[0].split('/').pop() || 'image';
+
+      try {
+        const fileBuffer = await this.clickup.downloadAttachment(image.url);
+        await this.monday.addFileToUpdate(update.id, fileBuffer, fileName);
       } catch (error: any) {
-        console.error(`Failed to migrate comment:`, error.message);
+        console.error(`Failed to re-host image ${fileName}:`, error.message);
       }
     }
   }
 
+  /**
+   * Post a task's ClickUp time entries as one update listing who tracked how long, and when
+   */
+  private async migrateTimeEntries(entries: ClickUpTimeEntry[], itemId: number): Promise<void> {
+    try {
+      const lines = entries.map(entry => {
+        const date = new Date(parseInt(entry.start)).toISOString().split('T')[0];
+        const user = entry.user?.username || entry.user?.email || 'Unknown user';
+        return `<li>${date} · ${escapeHtml(user)} · ${FieldMapper.toHours(entry.duration)} h</li>`;
+      });
+
+      await this.monday.createUpdate(itemId, `<p><strong>Time tracked in ClickUp</strong></p><ul>${lines.join('')}</ul>`);
+      console.log(`  ↳ Migrated ${entries.length} time entries`);
+    } catch (error: any) {
+      console.error(`Failed to migrate time entries:`, error.message);
+    }
+  }
+
   /**
    * Update replication status
    */
   private async updateReplicationStatus(
-    status: 'mapping' | 'creating' | 'migrating' | 'completed' | 'failed',
+    status: 'mapping' | 'creating' | 'migrating' | 'completed' | 'failed' | 'paused' | 'cancelled',
     completedAt?: string,
     errorMessage?: string
   ): Promise<void> {
@@ -438,6 +1041,20 @@ export class ListReplicator {
       .eq('id', this.replicationId) as any);
   }
 
+  /**
+   * Record how far the replication got so a rerun can pick up from here
+   */
+  private async saveCheckpoint(
+    checkpoint: Omit<ReplicationCheckpoint, 'updatedAt'>
+  ): Promise<void> {
+    await this.updateReplication({
+      checkpoint: {
+        ...checkpoint,
+        updatedAt: new Date().toISOString(),
+      },
+    });
+  }
+
   /**
    * Update migration progress
    */
@@ -453,3 +1070,14 @@ export class ListReplicator {
       .eq('id', this.replicationId) as any);
   }
 }
+
+const groupSubtasksByParent = (tasks: ClickUpTask[]): Map<string, ClickUpTask[]> => {
+  const byParent = new Map<string, ClickUpTask[]>();
+
+  for (const task of tasks) {
+    if (!task.parent) continue;
+    byParent.set(task.parent, [...(byParent.get(task.parent) || []), task]);
+  }
+
+  return byParent;
+};
@@ -0,0 +1,244 @@
+/**
+ * Converts ClickUp task descriptions (include_markdown_description) into the
+ * HTML Monday renders in updates, or into plain text for a long-text column.
+ */
+
+import { escapeHtml, isSafeUrl } from '@/lib/utils/html';
+
+export interface InlineImage {
+  alt: string;
+  url: string;
+}
+
+export interface ConvertedMarkdown {
+  html: string;
+  // Inline images, to be uploaded to the update as assets
+  images: InlineImage[];
+}
+
+interface ListLine {
+  indent: number;
+  ordered: boolean;
+  text: string;
+}
+
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const BLOCKQUOTE = /^\s*>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+// Link target with an optional title; URLs may contain balanced parentheses
+const LINK_TARGET = String.raw`\(((?:[^()\s]|\([^()\s]*\))+)(?:\s+"[^"]*")?\)`;
+const IMAGE = new RegExp(String.raw`!\[([^\]]*)\]` + LINK_TARGET, 'g');
+const LINK = new RegExp(String.raw`\[([^\]]+)\]` + LINK_TARGET, 'g');
+
+/**
+ * Markdown to Monday update HTML. Images are replaced by their name in the
+ * text and returned separately, since Monday can't show images from ClickUp.
+ */
+export const markdownToMondayHtml = (markdown: string): ConvertedMarkdown => {
+  const images: InlineImage[] = [];
+  const html = renderBlocks(normalize(markdown).split('\n'), images);
+  return { html, images };
+};
+
+/**
+ * Markdown to readable plain text, for a long-text column
+ */
+export const markdownToPlainText = (markdown: string): string => {
+  return normalize(markdown)
+    .split('\n')
+    .filter(line => !FENCE.test(line) && !TABLE_SEPARATOR.test(line))
+    .map(line => line
+      .replace(HEADING, '$2')
+      .replace(BLOCKQUOTE, '')
+      .replace(/^(\s*)[-*+]\s+\[( |x|X)\]\s+/, (_, indent, mark) => `${indent}${mark === ' ' ? '☐' : '☑'} `)
+      .replace(/^(\s*)[-*+]\s+/, '$1• ')
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, (_, alt) => `[${alt || 'image'}]`)
+      .replace(/\[([^\]]+)\]\(clickup:\/\/[^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\(([^)]+)\)/g, (_, text, url) => text.startsWith('@') ? text : `${text} (${url})`)
+      .replace(/(\*\*|__|~~|`)(.+?)\1/g, '$2')
+      .replace(/(^|[^\w*])[*_](\S(?:.*?\S)?)[*_](?=[^\w*]|$)/g, '$1$2'))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+const normalize = (markdown: string): string => (markdown || '').replace(/\r\n?/g, '\n');
+
+const renderBlocks = (lines: string[], images: InlineImage[]): string => {
+  const blocks: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Fenced code block, kept verbatim
+    const fence = line.match(FENCE);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const level = heading[1].length;
+      blocks.push(`<h${level}>${renderInline(heading[2], images)}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+      const rows: string[] = [line];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        rows.push(lines[i]);
+        i++;
+      }
+      blocks.push(renderTable(rows, images));
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && BLOCKQUOTE.test(lines[i])) {
+        quoted.push(lines[i].replace(BLOCKQUOTE, ''));
+        i++;
+      }
+      blocks.push(`<blockquote>${renderBlocks(quoted, images)}</blockquote>`);
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const items: ListLine[] = [];
+      while (i < lines.length && LIST_ITEM.test(lines[i])) {
+        const [, indent, marker, text] = lines[i].match(LIST_ITEM)!;
+        items.push({ indent: indent.replace(/\t/g, '  ').length, ordered: /\d/.test(marker), text });
+        i++;
+      }
+      blocks.push(renderList(items, images));
+      continue;
+    }
+
+    // Paragraph: consecutive lines up to the next blank line or block
+    const paragraph: string[] = [];
+    while (
+      i < lines.length
+      && lines[i].trim()
+      && !FENCE.test(lines[i])
+      && !HEADING.test(lines[i])
+      && !BLOCKQUOTE.test(lines[i])
+      && !LIST_ITEM.test(lines[i])
+      && !(paragraph.length > 0 && RULE.test(lines[i]))
+    ) {
+      paragraph.push(renderInline(lines[i].trim(), images));
+      i++;
+    }
+    blocks.push(`<p>${paragraph.join('<br>')}</p>`);
+  }
+
+  return blocks.join('');
+};
+
+/**
+ * Nested lists from the items' indentation; task-list items get a box
+ */
+const renderList = (items: ListLine[], images: InlineImage[]): string => {
+  const open: { indent: number; tag: string }[] = [];
+  let html = '';
+
+  for (const item of items) {
+    while (open.length > 1 && item.indent < open[open.length - 1].indent) {
+      html += `</li></${open.pop()!.tag}>`;
+    }
+
+    const tag = item.ordered ? 'ol' : 'ul';
+    const current = open[open.length - 1];
+    if (current && item.indent <= current.indent && current.tag !== tag) {
+      // A bullet list followed by a numbered one (or back) at the same level
+      html += `</li></${open.pop()!.tag}>`;
+    }
+
+    if (open.length === 0 || item.indent > open[open.length - 1].indent) {
+      open.push({ indent: item.indent, tag });
+      html += `<${tag}>`;
+    } else {
+      html += '</li>';
+    }
+
+    const text = item.text.replace(/^\[( |x|X)\]\s+/, (_, mark) => `${mark === ' ' ? '☐' : '☑'} `);
+    html += `<li>${renderInline(text, images)}`;
+  }
+
+  while (open.length > 0) {
+    html += `</li></${open.pop()!.tag}>`;
+  }
+  return html;
+};
+
+const renderTable = (rows: string[], images: InlineImage[]): string => {
+  const cells = (row: string) => row.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+
+  const [header, ...body] = rows;
+  const head = cells(header).map(cell => `<th>${renderInline(cell, images)}</th>`).join('');
+  const bodyRows = body
+    .map(row => `<tr>${cells(row).map(cell => `<td>${renderInline(cell, images)}</td>`).join('')}</tr>`)
+    .join('');
+
+  return `<table><thead><tr>${head}</tr></thead><tbody>${bodyRows}</tbody></table>`;
+};
+
+/**
+ * Inline formatting. Code spans, images and links become placeholders first
+ * so escaping and emphasis don't touch them; a link label can hold code spans,
+ * so placeholders are resolved recursively.
+ */
+const renderInline = (text: string, images: InlineImage[]): string => {
+  const tokens: string[] = [];
+  const hold = (html: string) => `\u0000${tokens.push(html) - 1}\u0000`;
+
+  let html = text
+    .replace(/`([^`]+)`/g, (_, code) => hold(`<code>${escapeHtml(code)}</code>`))
+    .replace(IMAGE, (_, alt, url) => {
+      images.push({ alt, url });
+      return hold(`📎 ${escapeHtml(alt || 'image')}`);
+    })
+    .replace(LINK, (_, label, url) => {
+      // ClickUp-internal links and mentions mean nothing in Monday; keep their text
+      if (url.startsWith('clickup://')) return hold(escapeHtml(label));
+      if (label.startsWith('@')) return hold(`<strong>${escapeHtml(label)}</strong>`);
+      // Anything but a web or mail link (javascript:, data:, relative paths) stays text
+      if (!isSafeUrl(url)) return hold(escapeHtml(label));
+      return hold(`<a href="${escapeHtml(url)}">${escapeHtml(label)}</a>`);
+    });
+
+  html = escapeHtml(html)
+    .replace(/(\*\*|__)(.+?)\1/g, '<strong>$2</strong>')
+    .replace(/~~(.+?)~~/g, '<s>$1</s>')
+    .replace(/(^|[^\w*])\*(\S(?:.*?\S)?)\*(?!\*)/g, '$1<em>$2</em>')
+    .replace(/(^|\W)_(\S(?:.*?\S)?)_(?!\w)/g, '$1<em>$2</em>');
+
+  const resolve = (held: string): string =>
+    held.replace(/\u0000(\d+)\u0000/g, (_, index) => resolve(tokens[parseInt(index)]));
+
+  return resolve(html);
+};
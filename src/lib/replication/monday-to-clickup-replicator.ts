@@ -0,0 +1,424 @@
+import { ClickUpAPI } from '@/lib/api/clickup';
+import { MondayAPI } from '@/lib/api/monday';
+import { getServiceSupabase } from '@/lib/db/supabase';
+import { ReverseFieldMapper, ReverseUserMap, StandardColumns } from './reverse-field-mapper';
+import { UserMapper } from './user-mapper';
+import { JobControl, JobHaltedError } from '@/lib/sync/job-control';
+import { generateFileHash } from '@/lib/utils/hash';
+import type { ClickUpCustomField, ClickUpStatus, ClickUpTask } from '@/types/clickup';
+import type { MondayAsset, MondayColumn, MondayItem, MondayUpdate } from '@/types/monday';
+import type { ReverseReplicationOptions } from '@/types';
+
+export interface ReverseReplicationResult {
+  success: boolean;
+  clickupListId?: string;
+  tasksCreated: number;
+  tasksFailed: number;
+  filesTransferred: number;
+  commentsMigrated: number;
+  errors: string[];
+}
+
+/**
+ * Replicates a Monday board into a new ClickUp list: columns become custom
+ * fields, items and subitems become tasks and subtasks, updates become
+ * comments and files become attachments. Items already recorded in
+ * task_mappings are skipped, so a rerun continues where the last one stopped.
+ */
+export class MondayToClickUpReplicator {
+  private clickup: ClickUpAPI;
+  private monday: MondayAPI;
+  private replicationId: string;
+  private userId: string;
+  private jobControl?: JobControl;
+  private userMap?: ReverseUserMap;
+  private listStatuses: ClickUpStatus[] = [];
+  private result: ReverseReplicationResult = {
+    success: true,
+    tasksCreated: 0,
+    tasksFailed: 0,
+    filesTransferred: 0,
+    commentsMigrated: 0,
+    errors: [],
+  };
+
+  constructor(
+    clickupToken: string,
+    mondayToken: string,
+    replicationId: string,
+    userId: string,
+    jobId?: string
+  ) {
+    this.clickup = new ClickUpAPI(clickupToken);
+    this.monday = new MondayAPI(mondayToken);
+    this.replicationId = replicationId;
+    this.userId = userId;
+    this.jobControl = jobId ? new JobControl(jobId) : undefined;
+  }
+
+  async run(): Promise<ReverseReplicationResult> {
+    const db = getServiceSupabase();
+
+    const { data: replication, error } = (await db
+      .from('list_replications')
+      .select('*')
+      .eq('id', this.replicationId)
+      .single()) as { data: any; error: any };
+
+    if (error || !replication) {
+      throw new Error(`Replication ${this.replicationId} not found`);
+    }
+    if (!replication.monday_board_id) {
+      throw new Error(`Replication ${this.replicationId} has no Monday board to copy`);
+    }
+
+    const options: ReverseReplicationOptions = replication.options;
+
+    try {
+      await this.updateReplication({ status: 'creating', error_message: null });
+
+      const board = await this.monday.getBoard(parseInt(replication.monday_board_id));
+      const columns = board.columns || [];
+
+      // Step 1: Create the list, or reuse the one an earlier run created
+      let listId: string = replication.clickup_list_id;
+      if (!listId) {
+        console.log(`Creating ClickUp list: ${replication.clickup_list_name || board.name}`);
+        const list = await this.clickup.createList(
+          options.clickupContainerType,
+          options.clickupContainerId,
+          replication.clickup_list_name || board.name
+        );
+        listId = list.id;
+        await this.updateReplication({ clickup_list_id: listId, clickup_list_name: list.name });
+        console.log(`✓ Created list: ${list.name} (ID: ${list.id})`);
+      }
+      this.result.clickupListId = listId;
+      this.listStatuses = (await this.clickup.getList(listId)).statuses || [];
+
+      // Step 2: Match people so people columns can become assignees
+      if (options.preserveAssignees) {
+        console.log('Matching Monday users to ClickUp users...');
+        const { matches } = await new UserMapper(this.clickup, this.monday, this.userId).getMatches();
+        this.userMap = new Map(
+          matches
+            .filter(match => match.mondayUserId)
+            .map(match => [match.mondayUserId!, parseInt(match.clickupUserId)])
+        );
+      }
+
+      // Step 3: Custom fields for every column that isn't a task property
+      console.log('Creating custom fields...');
+      const standardColumns = ReverseFieldMapper.getStandardColumns(columns);
+      const fields = await this.createCustomFields(listId, columns, standardColumns);
+
+      // Step 4: Tasks from items
+      await this.updateReplication({ status: 'migrating', started_at: new Date().toISOString() });
+
+      const { data: migrated } = (await db
+        .from('task_mappings')
+        .select('monday_item_id')
+        .eq('replication_id', this.replicationId)
+        .is('monday_parent_id', null)) as { data: any[] | null };
+
+      const migratedItemIds = new Set((migrated || []).map(mapping => mapping.monday_item_id));
+      const items = await this.monday.getItems(parseInt(board.id));
+      const pending = items.filter(item => !migratedItemIds.has(item.id));
+
+      console.log(`Found ${pending.length} items to migrate (${items.length - pending.length} already migrated)`);
+      await this.updateReplication({ total_tasks: items.length, migrated_tasks: items.length - pending.length });
+
+      let processed = items.length - pending.length;
+      for (const item of pending) {
+        await this.jobControl?.throwIfHalted();
+
+        try {
+          const [details] = await this.monday.getItemDetails([item.id]);
+          await this.migrateItem(details || item, listId, fields, standardColumns, options);
+          this.result.tasksCreated++;
+        } catch (error: any) {
+          console.error(`✗ Failed to migrate item ${item.name}:`, error.message);
+          this.result.tasksFailed++;
+          this.result.errors.push(`${item.name}: ${error.message}`);
+        }
+
+        processed++;
+        await this.updateReplication({ migrated_tasks: processed });
+      }
+
+      await this.updateReplication({ status: 'completed', completed_at: new Date().toISOString() });
+      console.log('Reverse replication completed successfully!');
+
+      return this.result;
+    } catch (error: any) {
+      if (error instanceof JobHaltedError) {
+        console.log(`Replication stopped: ${error.message}`);
+        if (error.reason !== 'lease_lost') {
+          await this.updateReplication({ status: error.reason });
+        }
+        throw error;
+      }
+
+      console.error('Reverse replication failed:', error);
+      this.result.success = false;
+      this.result.errors.push(error.message);
+
+      await this.updateReplication({ status: 'failed', error_message: error.message });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a custom field per column, reusing those created by an earlier
+   * run; returns the fields keyed by Monday column ID
+   */
+  private async createCustomFields(
+    listId: string,
+    columns: MondayColumn[],
+    standardColumns: StandardColumns
+  ): Promise<Map<string, ClickUpCustomField>> {
+    const db = getServiceSupabase();
+
+    const { data: saved } = (await db
+      .from('field_mappings')
+      .select('clickup_field_id, monday_column_id')
+      .eq('replication_id', this.replicationId)) as { data: any[] | null };
+
+    const fieldIdByColumn = new Map<string, string>(
+      (saved || []).map(mapping => [mapping.monday_column_id, mapping.clickup_field_id])
+    );
+
+    // Status and Priority stay as fields too, so labels with no ClickUp equivalent aren't lost
+    const propertyColumns = new Set(
+      [standardColumns.assignees, standardColumns.timeline, standardColumns.dueDate, standardColumns.tags]
+        .filter(Boolean)
+    );
+
+    for (const column of columns) {
+      if (column.archived || propertyColumns.has(column.id) || fieldIdByColumn.has(column.id)) continue;
+
+      const definition = ReverseFieldMapper.createFieldDefinition(column);
+      if (!definition) {
+        console.log(`↳ Skipped column: ${column.title} (${column.type})`);
+        continue;
+      }
+
+      try {
+        const field = await this.clickup.createCustomField(listId, definition);
+        fieldIdByColumn.set(column.id, field.id);
+
+        await db.from('field_mappings').insert({
+          replication_id: this.replicationId,
+          clickup_field_id: field.id,
+          clickup_field_name: definition.name,
+          clickup_field_type: definition.type,
+          monday_column_id: column.id,
+          monday_column_name: column.title,
+          monday_column_type: column.type,
+          mapping_status: 'auto',
+        } as any);
+
+        console.log(`✓ Created field: ${column.title} (${column.type} → ${definition.type})`);
+      } catch (error: any) {
+        console.error(`✗ Failed to create field ${column.title}:`, error.message);
+      }
+    }
+
+    // The list's fields carry the option IDs that dropdown values are written with
+    const listFields = await this.clickup.getCustomFields(listId);
+    const fields = new Map<string, ClickUpCustomField>();
+
+    for (const [columnId, fieldId] of Array.from(fieldIdByColumn.entries())) {
+      const field = listFields.find(f => f.id === fieldId);
+      if (field) fields.set(columnId, field);
+    }
+
+    return fields;
+  }
+
+  private async migrateItem(
+    item: MondayItem,
+    listId: string,
+    fields: Map<string, ClickUpCustomField>,
+    standardColumns: StandardColumns,
+    options: ReverseReplicationOptions
+  ): Promise<void> {
+    const db = getServiceSupabase();
+
+    const taskData = ReverseFieldMapper.transformStandardFields(item, standardColumns, this.listStatuses, this.userMap);
+    const customFields: { id: string; value: any }[] = [];
+
+    for (const [columnId, field] of Array.from(fields.entries())) {
+      const columnValue = item.column_values.find(cv => cv.id === columnId);
+      const value = columnValue && ReverseFieldMapper.transformColumnValue(columnValue, field, this.userMap);
+      if (value !== undefined) {
+        customFields.push({ id: field.id, value });
+      }
+    }
+
+    const task = await this.clickup.createTask(listId, { ...taskData, custom_fields: customFields });
+    console.log(`✓ Created task: ${task.name}`);
+
+    await db.from('task_mappings').insert({
+      replication_id: this.replicationId,
+      clickup_task_id: task.id,
+      monday_item_id: item.id,
+      task_data: task,
+      sync_status: 'synced',
+      last_synced_at: new Date().toISOString(),
+    } as any);
+
+    await this.migrateContent(item, task, options);
+
+    // Subitems have their own columns, so subtasks only get their name, updates and files
+    if (options.includeSubitems) {
+      for (const subitem of item.subitems || []) {
+        try {
+          const subtask = await this.clickup.createTask(listId, { name: subitem.name, parent: task.id });
+
+          await db.from('task_mappings').insert({
+            replication_id: this.replicationId,
+            clickup_task_id: subtask.id,
+            monday_item_id: subitem.id,
+            clickup_parent_id: task.id,
+            monday_parent_id: item.id,
+            task_data: subtask,
+            sync_status: 'synced',
+            last_synced_at: new Date().toISOString(),
+          } as any);
+
+          console.log(`  ↳ Created subtask: ${subtask.name}`);
+          await this.migrateContent(subitem, subtask, options);
+        } catch (error: any) {
+          console.error(`  ✗ Failed to migrate subitem ${subitem.name}:`, error.message);
+        }
+      }
+    }
+  }
+
+  /**
+   * An item's updates as comments and its files as attachments
+   */
+  private async migrateContent(
+    item: MondayItem,
+    task: ClickUpTask,
+    options: ReverseReplicationOptions
+  ): Promise<void> {
+    if (options.includeUpdates && item.updates?.length) {
+      await this.migrateUpdates(item.updates, item.id, task.id);
+    }
+
+    if (options.includeFiles && item.assets?.length) {
+      await this.transferAssets(item.assets, item.id, item.board?.id, task.id);
+    }
+  }
+
+  /**
+   * Post updates oldest first, with replies threaded under their comment
+   */
+  private async migrateUpdates(updates: MondayUpdate[], itemId: string, taskId: string): Promise<void> {
+    const sorted = [...updates].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+    for (const update of sorted) {
+      try {
+        const comment = await this.clickup.createTaskComment(taskId, formatUpdate(update));
+        await this.recordComment(comment.id, taskId, itemId, update.id);
+        this.result.commentsMigrated++;
+
+        const replies = [...(update.replies || [])].sort((a, b) => a.created_at.localeCompare(b.created_at));
+        for (const reply of replies) {
+          const replyComment = await this.clickup.createCommentReply(comment.id, formatUpdate(reply));
+          await this.recordComment(replyComment.id, taskId, itemId, reply.id, comment.id);
+          this.result.commentsMigrated++;
+        }
+
+        console.log(`  ↳ Migrated update`);
+      } catch (error: any) {
+        console.error(`Failed to migrate update:`, error.message);
+      }
+    }
+  }
+
+  private async recordComment(
+    commentId: string,
+    taskId: string,
+    itemId: string,
+    updateId: string,
+    parentCommentId?: string
+  ): Promise<void> {
+    const db = getServiceSupabase();
+
+    await db.from('comment_mappings').insert({
+      replication_id: this.replicationId,
+      clickup_comment_id: commentId,
+      clickup_task_id: taskId,
+      clickup_parent_comment_id: parentCommentId || null,
+      monday_item_id: itemId,
+      monday_update_id: updateId,
+    } as any);
+  }
+
+  private async transferAssets(
+    assets: MondayAsset[],
+    itemId: string,
+    boardId: string | undefined,
+    taskId: string
+  ): Promise<void> {
+    const db = getServiceSupabase();
+
+    for (const asset of assets) {
+      try {
+        console.log(`  ↳ Transferring file: ${asset.name}...`);
+
+        const fileBuffer = await this.monday.downloadAsset(asset);
+        await this.clickup.uploadAttachment(taskId, fileBuffer, asset.name);
+
+        await db.from('file_transfers').insert({
+          job_id: this.jobControl?.jobId || null,
+          direction: 'monday_to_clickup',
+          clickup_task_id: taskId,
+          monday_item_id: itemId,
+          monday_board_id: boardId || null,
+          file_name: asset.name,
+          file_size: asset.file_size,
+          file_hash: generateFileHash(fileBuffer),
+          status: 'transferred',
+          transferred_at: new Date().toISOString(),
+        } as any);
+
+        this.result.filesTransferred++;
+        console.log(`    ✓ Transferred: ${asset.name}`);
+      } catch (error: any) {
+        console.error(`    ✗ Failed to transfer ${asset.name}:`, error.message);
+
+        await db.from('file_transfers').insert({
+          job_id: this.jobControl?.jobId || null,
+          direction: 'monday_to_clickup',
+          clickup_task_id: taskId,
+          monday_item_id: itemId,
+          file_name: asset.name,
+          file_size: asset.file_size,
+          status: 'failed',
+          error_message: error.message,
+        } as any);
+      }
+    }
+  }
+
+  private async updateReplication(data: any): Promise<void> {
+    const db = getServiceSupabase();
+    await (db
+      .from('list_replications')
+      .update(data as any)
+      .eq('id', this.replicationId) as any);
+  }
+}
+
+/**
+ * Comment text for an update: who wrote it and when, then its text
+ */
+const formatUpdate = (update: MondayUpdate): string => {
+  const author = update.creator?.name || update.creator?.email || 'Unknown user';
+  const date = new Date(update.created_at).toISOString().replace('T', ' ').substring(0, 16);
+  return `${author} · ${date} UTC (from Monday)\n\n${update.text_body || ''}`.trim();
+};
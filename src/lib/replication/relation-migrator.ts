@@ -0,0 +1,229 @@
+import { MondayAPI } from '@/lib/api/monday';
+import { getServiceSupabase, LOOKUP_CHUNK_SIZE } from '@/lib/db/supabase';
+import { FieldMapper } from './field-mapper';
+import type { ClickUpTask } from '@/types/clickup';
+import type { MondayColumn, MondayColumnType } from '@/types/monday';
+
+export const DEPENDENCY_COLUMN = 'Dependencies';
+export const CROSS_BOARD_DEPENDENCY_COLUMN = 'Depends On';
+export const LINKED_TASKS_COLUMN = 'Linked Tasks';
+
+interface ItemLocation {
+  itemId: number;
+  boardId: string;
+}
+
+export interface RelationResult {
+  itemsLinked: number;
+  unresolved: number;
+}
+
+/**
+ * IDs of the tasks a task waits on
+ */
+export const getDependsOnIds = (task: ClickUpTask): string[] => {
+  return Array.from(new Set(
+    (task.dependencies || [])
+      .filter(dependency => dependency.task_id === task.id)
+      .map(dependency => dependency.depends_on)
+  ));
+};
+
+/**
+ * IDs of the tasks linked to a task
+ */
+export const getLinkedTaskIds = (task: ClickUpTask): string[] => {
+  return Array.from(new Set(
+    (task.linked_tasks || []).map(link => link.task_id === task.id ? link.link_id : link.task_id)
+  ));
+};
+
+/**
+ * Second replication pass: once every item exists, resolves ClickUp
+ * dependencies and linked tasks through task_mappings and writes them as
+ * Monday columns. Waits on tasks of the same board go into a dependency
+ * column; those on other replicated boards into a connect-boards column,
+ * as do linked tasks. Tasks in lists that aren't replicated yet are left
+ * out; resuming the replication later fills them in.
+ */
+export class RelationMigrator {
+  private monday: MondayAPI;
+  private userId: string;
+  private boardId: number;
+  private columns: MondayColumn[] = [];
+
+  constructor(monday: MondayAPI, userId: string, boardId: number) {
+    this.monday = monday;
+    this.userId = userId;
+    this.boardId = boardId;
+  }
+
+  async migrate(tasks: ClickUpTask[]): Promise<RelationResult> {
+    const result: RelationResult = { itemsLinked: 0, unresolved: 0 };
+
+    const related = tasks.filter(task => getDependsOnIds(task).length > 0 || getLinkedTaskIds(task).length > 0);
+    if (related.length === 0) return result;
+
+    const taskIds = new Set<string>();
+    for (const task of related) {
+      taskIds.add(task.id);
+      getDependsOnIds(task).forEach(id => taskIds.add(id));
+      getLinkedTaskIds(task).forEach(id => taskIds.add(id));
+    }
+
+    const locations = await this.resolveItems(Array.from(taskIds));
+    const board = await this.monday.getBoard(this.boardId);
+    this.columns = board.columns || [];
+    const ownBoardId = this.boardId.toString();
+
+    for (const task of related) {
+      const source = locations.get(task.id);
+      // Subtasks live on the subitems board, which gets no relation columns
+      if (!source || source.boardId !== ownBoardId) continue;
+
+      const sameBoardDependencies: number[] = [];
+      const otherBoardDependencies: ItemLocation[] = [];
+      const links: ItemLocation[] = [];
+
+      for (const id of getDependsOnIds(task)) {
+        const target = locations.get(id);
+        if (!target) {
+          result.unresolved++;
+        } else if (target.boardId === ownBoardId) {
+          sameBoardDependencies.push(target.itemId);
+        } else {
+          otherBoardDependencies.push(target);
+        }
+      }
+
+      for (const id of getLinkedTaskIds(task)) {
+        const target = locations.get(id);
+        if (target) {
+          links.push(target);
+        } else {
+          result.unresolved++;
+        }
+      }
+
+      try {
+        const columnValues: Record<string, any> = {};
+
+        if (sameBoardDependencies.length > 0) {
+          const column = await this.ensureColumn(DEPENDENCY_COLUMN, 'dependency');
+          columnValues[column.id] = { item_ids: sameBoardDependencies };
+        }
+        if (otherBoardDependencies.length > 0) {
+          const { columnId, itemIds } = await this.getConnectedItemIds(
+            CROSS_BOARD_DEPENDENCY_COLUMN,
+            otherBoardDependencies,
+            result
+          );
+          if (itemIds.length > 0) columnValues[columnId] = { item_ids: itemIds };
+        }
+        if (links.length > 0) {
+          const { columnId, itemIds } = await this.getConnectedItemIds(LINKED_TASKS_COLUMN, links, result);
+          if (itemIds.length > 0) columnValues[columnId] = { item_ids: itemIds };
+        }
+
+        if (Object.keys(columnValues).length === 0) continue;
+
+        await this.monday.changeMultipleColumnValues(this.boardId, source.itemId, columnValues);
+        result.itemsLinked++;
+        console.log(`  ↳ Linked ${task.name}`);
+      } catch (error: any) {
+        console.error(`✗ Failed to link ${task.name}:`, error.message);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Item IDs to write into a connect-boards column. A column that already
+   * exists only accepts items of the boards it connects; the others are dropped.
+   */
+  private async getConnectedItemIds(
+    title: string,
+    targets: ItemLocation[],
+    result: RelationResult
+  ): Promise<{ columnId: string; itemIds: number[] }> {
+    const boardIds = Array.from(new Set(targets.map(target => target.boardId)));
+    const column = await this.ensureColumn(title, 'connect-boards', { boardIds: boardIds.map(id => parseInt(id)) });
+    const connected = new Set(getConnectedBoardIds(column));
+
+    const itemIds = targets
+      .filter(target => connected.has(target.boardId))
+      .map(target => target.itemId);
+
+    if (itemIds.length < targets.length) {
+      result.unresolved += targets.length - itemIds.length;
+      console.log(`  ↳ ${targets.length - itemIds.length} link(s) point to boards ${title} doesn't connect`);
+    }
+
+    return { columnId: column.id, itemIds };
+  }
+
+  private async ensureColumn(title: string, type: MondayColumnType, defaults?: any): Promise<MondayColumn> {
+    const existing = FieldMapper.findMatchingColumn(this.columns, title, [type]);
+    if (existing) return existing;
+
+    const column = await this.monday.createColumn(this.boardId, title, type, defaults);
+    this.columns.push(column);
+    console.log(`✓ Created column: ${title}`);
+    return column;
+  }
+
+  /**
+   * Monday item and board of every ClickUp task that was replicated as an
+   * item, in any of the user's replications
+   */
+  private async resolveItems(taskIds: string[]): Promise<Map<string, ItemLocation>> {
+    const db = getServiceSupabase();
+    const mappings: any[] = [];
+
+    for (let i = 0; i < taskIds.length; i += LOOKUP_CHUNK_SIZE) {
+      const { data } = (await db
+        .from('task_mappings')
+        .select('clickup_task_id, monday_item_id, monday_parent_id, replication_id')
+        .eq('entity_type', 'task')
+        .in('clickup_task_id', taskIds.slice(i, i + LOOKUP_CHUNK_SIZE))
+        .not('monday_item_id', 'is', null)) as { data: any[] | null };
+      mappings.push(...(data || []).filter(mapping => !mapping.monday_parent_id));
+    }
+
+    if (mappings.length === 0) return new Map();
+
+    const replicationIds = Array.from(new Set(mappings.map(mapping => mapping.replication_id as string)));
+    const { data: replications } = (await db
+      .from('list_replications')
+      .select('id, monday_board_id')
+      .eq('user_id', this.userId)
+      .in('id', replicationIds)
+      .not('monday_board_id', 'is', null)) as { data: any[] | null };
+
+    const boardByReplication = new Map<string, string>(
+      (replications || []).map(replication => [replication.id, replication.monday_board_id])
+    );
+
+    const locations = new Map<string, ItemLocation>();
+    for (const mapping of mappings) {
+      const boardId = boardByReplication.get(mapping.replication_id);
+      // A task replicated to several boards is linked by its item on this board
+      const current = locations.get(mapping.clickup_task_id);
+      if (boardId && current?.boardId !== this.boardId.toString()) {
+        locations.set(mapping.clickup_task_id, { itemId: parseInt(mapping.monday_item_id), boardId });
+      }
+    }
+
+    return locations;
+  }
+}
+
+const getConnectedBoardIds = (column: MondayColumn): string[] => {
+  try {
+    const settings = JSON.parse(column.settings_str || '{}');
+    return (settings.boardIds || []).map((id: number | string) => id.toString());
+  } catch {
+    return [];
+  }
+};
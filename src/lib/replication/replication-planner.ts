@@ -0,0 +1,256 @@
+import { ClickUpAPI } from '@/lib/api/clickup';
+import {
+  FieldMapper,
+  TIMELINE_COLUMN,
+  TIME_ESTIMATE_COLUMN,
+  TIME_TRACKED_COLUMN,
+  DESCRIPTION_COLUMN,
+} from './field-mapper';
+import { getGroupTitle } from './group-layout';
+import type { ClickUpList, ClickUpTask, ClickUpCustomField } from '@/types/clickup';
+import type { MondayColumn, MondayColumnType } from '@/types/monday';
+import type {
+  ReplicationOptions,
+  ReplicationPlan,
+  PlannedColumn,
+  RejectedValue,
+} from '@/types';
+
+/**
+ * Builds a dry-run report of what ListReplicator would create in Monday.
+ * Only reads from ClickUp; never calls a Monday mutation.
+ */
+export class ReplicationPlanner {
+  private clickup: ClickUpAPI;
+
+  constructor(clickup: ClickUpAPI) {
+    this.clickup = clickup;
+  }
+
+  /**
+   * Fetch the list from ClickUp and plan its replication
+   */
+  async plan(
+    clickupListId: string,
+    mondayBoardName: string,
+    options: ReplicationOptions,
+    existingColumns: MondayColumn[] = []
+  ): Promise<ReplicationPlan> {
+    const list = await this.clickup.getList(clickupListId);
+    const customFields = await this.clickup.getCustomFields(clickupListId);
+    const tasks = await this.clickup.getAllListTasks(clickupListId);
+
+    return this.buildPlan(list, customFields, tasks, mondayBoardName, options, existingColumns);
+  }
+
+  /**
+   * Plan a replication from already fetched ClickUp data. Pass the target
+   * board's columns when replicating into an existing board.
+   */
+  async buildPlan(
+    list: ClickUpList,
+    customFields: ClickUpCustomField[],
+    tasks: ClickUpTask[],
+    mondayBoardName: string,
+    options: ReplicationOptions,
+    existingColumns: MondayColumn[] = []
+  ): Promise<ReplicationPlan> {
+    const migratesStructure = options.mode !== 'data_only';
+    const migratesData = options.mode !== 'structure_only';
+
+    // Without includeSubtasks, subtasks are replicated as ordinary items
+    const plannedTasks = migratesData ? tasks : [];
+    const topLevelTasks = options.includeSubtasks
+      ? plannedTasks.filter(task => !task.parent)
+      : plannedTasks;
+    const subtasks = options.includeSubtasks
+      ? plannedTasks.filter(task => !!task.parent)
+      : [];
+
+    // Skipped fields create no column, merged fields share one, and on an
+    // existing board matching columns are reused
+    const columns: PlannedColumn[] = [];
+    const plannedFields: ClickUpCustomField[] = [];
+
+    for (const field of migratesStructure ? customFields : []) {
+      const override = options.customFieldMapping?.[field.id];
+      const target = FieldMapper.resolveFieldTarget(field, override);
+      if (target.action === 'skip') continue;
+
+      const existing = target.action === 'existing'
+        ? existingColumns.find(col => col.id === target.mondayColumnId)
+        : FieldMapper.findMatchingColumn(
+            existingColumns,
+            target.title,
+            target.action === 'merge' || override?.columnType
+              ? [target.type]
+              : FieldMapper.getCompatibleColumnTypes(field.type)
+          );
+      const type = existing?.type || target.type;
+
+      const sharesMergedColumn = target.action === 'merge' && columns.some(
+        column => column.title === (existing?.title || target.title) && column.type === type
+      );
+
+      if (!sharesMergedColumn && (existing || target.action !== 'existing')) {
+        columns.push({
+          clickupFieldId: field.id,
+          clickupFieldName: field.name,
+          clickupFieldType: field.type,
+          title: existing?.title || target.title,
+          type,
+          settings: existing ? {} : target.settings,
+          existingColumnId: existing?.id,
+        });
+      }
+
+      // Only values written with the field's own transform can be rejected
+      if (target.action !== 'merge' && type === FieldMapper.mapFieldType(field.type)) {
+        plannedFields.push(field);
+      }
+    }
+
+    const attachments = options.includeAttachments
+      ? plannedTasks.flatMap(task => task.attachments || [])
+      : [];
+
+    if (attachments.length > 0) {
+      // A file column is created on demand for the first transferred attachment
+      const fileColumn = existingColumns.find(col => !col.archived && col.type === 'file');
+      columns.push({
+        title: fileColumn?.title || 'Files',
+        type: 'file',
+        settings: {},
+        existingColumnId: fileColumn?.id,
+      });
+    }
+
+    // Time and description columns are created once a task has a value for them;
+    // tracked time is only known per task, so its column is planned whenever it's asked for
+    const taskColumns: { title: string; type: MondayColumnType; needed: boolean }[] = [
+      {
+        title: TIMELINE_COLUMN,
+        type: 'timeline',
+        needed: options.preserveDates && topLevelTasks.some(task => FieldMapper.transformTimeFields(task).timeline),
+      },
+      {
+        title: TIME_ESTIMATE_COLUMN,
+        type: 'numbers',
+        needed: topLevelTasks.some(task => FieldMapper.transformTimeFields(task).timeEstimate),
+      },
+      {
+        title: TIME_TRACKED_COLUMN,
+        type: 'numbers',
+        needed: !!options.includeTimeTracking && topLevelTasks.length > 0,
+      },
+      {
+        title: DESCRIPTION_COLUMN,
+        type: 'long-text',
+        needed: options.descriptionTarget === 'column'
+          && topLevelTasks.some(task => task.markdown_description || task.description),
+      },
+    ];
+
+    for (const { title, type, needed } of taskColumns) {
+      if (!needed) continue;
+      const existing = FieldMapper.findMatchingColumn(existingColumns, title, [type]);
+      columns.push({ title, type, settings: {}, existingColumnId: existing?.id });
+    }
+
+    // Comments are only migrated for items, not subitems
+    let commentCount = 0;
+    if (options.includeComments) {
+      for (const task of topLevelTasks) {
+        const comments = await this.clickup.getTaskComments(task.id);
+        commentCount += comments.length;
+      }
+    }
+
+    return {
+      list: {
+        id: list.id,
+        name: list.name,
+      },
+      boardName: mondayBoardName,
+      mode: options.mode,
+      columns,
+      items: {
+        total: topLevelTasks.length + subtasks.length,
+        topLevel: topLevelTasks.length,
+        subitems: subtasks.length,
+      },
+      attachments: {
+        count: attachments.length,
+        totalBytes: attachments.reduce((sum, attachment) => sum + (attachment.size || 0), 0),
+      },
+      comments: {
+        count: commentCount,
+      },
+      groups: this.planGroups(list, topLevelTasks, options),
+      rejectedValues: migratesStructure
+        ? this.findRejectedValues(plannedTasks, plannedFields)
+        : [],
+    };
+  }
+
+  /**
+   * Group titles items would be placed in, with status groups in ClickUp order
+   */
+  private planGroups(
+    list: ClickUpList,
+    tasks: ClickUpTask[],
+    options: ReplicationOptions
+  ): string[] {
+    if (!options.groupBy || options.groupBy === 'none') return [];
+
+    const titles = options.groupBy === 'status'
+      ? [...(list.statuses || [])].sort((a, b) => a.orderindex - b.orderindex).map(status => status.status)
+      : [];
+
+    for (const task of tasks) {
+      const title = getGroupTitle(task, options.groupBy, options.groupByFieldId);
+      if (title && !titles.includes(title)) {
+        titles.push(title);
+      }
+    }
+
+    return titles;
+  }
+
+  /**
+   * Collect custom field values FieldMapper.validateValue would reject
+   */
+  private findRejectedValues(
+    tasks: ClickUpTask[],
+    customFields: ClickUpCustomField[]
+  ): RejectedValue[] {
+    const rejected: RejectedValue[] = [];
+    const fieldsById = new Map(customFields.map(field => [field.id, field]));
+
+    for (const task of tasks) {
+      for (const taskField of task.custom_fields || []) {
+        const field = fieldsById.get(taskField.id);
+        if (!field || taskField.value === null || taskField.value === undefined) continue;
+
+        const columnType = FieldMapper.mapFieldType(field.type);
+        const transform = FieldMapper.getTransformationRule(field.type);
+        const value = transform ? transform(taskField.value) : taskField.value;
+
+        // Transforms return null for empty values, which are simply not written
+        if (value === null || value === undefined) continue;
+
+        if (!FieldMapper.validateValue(value, columnType)) {
+          rejected.push({
+            taskId: task.id,
+            taskName: task.name,
+            fieldName: field.name,
+            columnType,
+            value: taskField.value,
+          });
+        }
+      }
+    }
+
+    return rejected;
+  }
+}
@@ -0,0 +1,252 @@
+import { CLICKUP_PRIORITIES } from './status-mapper';
+import type {
+  ClickUpCustomField,
+  ClickUpCustomFieldCreate,
+  ClickUpCustomFieldType,
+  ClickUpStatus,
+  ClickUpTaskCreate,
+} from '@/types/clickup';
+import type { MondayColumn, MondayColumnValue, MondayItem } from '@/types/monday';
+
+// Board columns that become task properties rather than custom fields
+export interface StandardColumns {
+  assignees?: string;
+  timeline?: string;
+  dueDate?: string;
+  tags?: string;
+  status?: string;
+  priority?: string;
+}
+
+// Monday user ID → ClickUp user ID
+export type ReverseUserMap = Map<string, number>;
+
+/**
+ * Maps Monday.com columns and values to ClickUp custom fields and task
+ * properties; the reverse of FieldMapper
+ */
+export class ReverseFieldMapper {
+  /**
+   * ClickUp custom field type for a Monday column type, or null when the
+   * column can't be represented (files, relations, formulas, …)
+   */
+  static mapColumnType(mondayColumnType: string): ClickUpCustomFieldType | null {
+    // The API reports some types with underscores, the app's types use dashes
+    const typeMap: Record<string, ClickUpCustomFieldType> = {
+      'text': 'short_text',
+      'long-text': 'text',
+      'long_text': 'text',
+      'numbers': 'number',
+      'date': 'date',
+      'checkbox': 'checkbox',
+      'status': 'drop_down',
+      'color': 'drop_down',
+      'dropdown': 'labels',
+      'email': 'email',
+      'phone': 'phone',
+      'link': 'url',
+      'people': 'users',
+      'multiple-person': 'users',
+      'rating': 'rating',
+    };
+
+    return typeMap[mondayColumnType] || null;
+  }
+
+  /**
+   * Columns copied onto the task itself: the first people column as
+   * assignees, the first timeline (or else date) column as start and due
+   * dates, and the tags column. Status and Priority columns also become
+   * custom fields, as their labels rarely all exist in ClickUp.
+   */
+  static getStandardColumns(columns: MondayColumn[]): StandardColumns {
+    const active = columns.filter(col => !col.archived);
+    const byTitle = (title: string) => active.find(
+      col => ['status', 'color'].includes(col.type) && col.title.trim().toLowerCase() === title
+    );
+
+    return {
+      assignees: active.find(col => ['people', 'multiple-person'].includes(col.type))?.id,
+      timeline: active.find(col => col.type === 'timeline')?.id,
+      dueDate: active.find(col => col.type === 'timeline')
+        ? undefined
+        : active.find(col => col.type === 'date')?.id,
+      tags: active.find(col => col.type === 'tags')?.id,
+      status: byTitle('status')?.id,
+      priority: byTitle('priority')?.id,
+    };
+  }
+
+  /**
+   * Custom field definition for a column, with its labels as options
+   */
+  static createFieldDefinition(column: MondayColumn): ClickUpCustomFieldCreate | null {
+    const type = ReverseFieldMapper.mapColumnType(column.type);
+    if (!type) return null;
+
+    const settings = parseSettings(column.settings_str);
+
+    if (type === 'drop_down') {
+      const labels: Record<string, string> = settings.labels || {};
+      const colors: Record<string, { color?: string }> = settings.labels_colors || {};
+      return {
+        name: column.title,
+        type,
+        type_config: {
+          options: Object.keys(labels)
+            .filter(index => labels[index])
+            .map((index, orderindex) => ({ name: labels[index], color: colors[index]?.color || null, orderindex })),
+        },
+      };
+    }
+
+    if (type === 'labels') {
+      const labels: { id: number; name: string }[] = Array.isArray(settings.labels) ? settings.labels : [];
+      return {
+        name: column.title,
+        type,
+        type_config: { options: labels.map(label => ({ label: label.name, color: null })) },
+      };
+    }
+
+    if (type === 'rating') {
+      return { name: column.title, type, type_config: { count: settings.max || 5, code_point: '2b50' } };
+    }
+
+    return { name: column.title, type };
+  }
+
+  /**
+   * ClickUp custom field value for a Monday column value; undefined when
+   * it's empty or can't be converted
+   */
+  static transformColumnValue(
+    columnValue: MondayColumnValue,
+    field: ClickUpCustomField,
+    userMap?: ReverseUserMap
+  ): any {
+    const text = columnValue.text?.trim();
+    const value = parseSettings(columnValue.value);
+    const options: any[] = field.type_config?.options || [];
+
+    switch (field.type) {
+      case 'short_text':
+      case 'text':
+      case 'phone':
+        return text || undefined;
+      case 'email':
+        return value.email || text || undefined;
+      case 'url':
+        return value.url || text || undefined;
+      case 'number': {
+        const number = parseFloat(text || '');
+        return isNaN(number) ? undefined : number;
+      }
+      case 'rating':
+        return typeof value.rating === 'number' ? value.rating : undefined;
+      case 'checkbox':
+        return value.checked === true || value.checked === 'true' ? true : undefined;
+      case 'date':
+        return value.date ? toTimestamp(value.date, value.time) : undefined;
+      case 'drop_down':
+        return text ? findOption(options, text)?.id : undefined;
+      case 'labels': {
+        const ids = (text || '').split(',')
+          .map(label => findOption(options, label.trim())?.id)
+          .filter(Boolean);
+        return ids.length > 0 ? ids : undefined;
+      }
+      case 'users': {
+        const ids = ReverseFieldMapper.toClickUpUserIds(columnValue, userMap);
+        return ids.length > 0 ? { add: ids } : undefined;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Task properties from an item's standard columns. The status is only
+   * set when the list has a status with the same name.
+   */
+  static transformStandardFields(
+    item: MondayItem,
+    standardColumns: StandardColumns,
+    listStatuses: ClickUpStatus[],
+    userMap?: ReverseUserMap
+  ): ClickUpTaskCreate {
+    const task: ClickUpTaskCreate = { name: item.name };
+    const valueOf = (columnId?: string) => columnId
+      ? item.column_values.find(cv => cv.id === columnId)
+      : undefined;
+
+    const assignees = valueOf(standardColumns.assignees);
+    if (assignees) {
+      const ids = ReverseFieldMapper.toClickUpUserIds(assignees, userMap);
+      if (ids.length > 0) task.assignees = ids;
+    }
+
+    const timeline = parseSettings(valueOf(standardColumns.timeline)?.value);
+    if (timeline.from && timeline.to) {
+      task.start_date = toTimestamp(timeline.from);
+      task.due_date = toTimestamp(timeline.to);
+    }
+
+    const dueDate = parseSettings(valueOf(standardColumns.dueDate)?.value);
+    if (dueDate.date) {
+      task.due_date = toTimestamp(dueDate.date, dueDate.time);
+      task.due_date_time = !!dueDate.time;
+    }
+
+    const tags = valueOf(standardColumns.tags)?.text;
+    if (tags) {
+      task.tags = tags.split(',').map(tag => tag.trim()).filter(Boolean);
+    }
+
+    const status = valueOf(standardColumns.status)?.text?.trim().toLowerCase();
+    const listStatus = status && listStatuses.find(s => s.status.toLowerCase() === status);
+    if (listStatus) {
+      task.status = listStatus.status;
+    }
+
+    const priority = valueOf(standardColumns.priority)?.text?.trim().toLowerCase();
+    const clickupPriority = priority && CLICKUP_PRIORITIES.find(p => p.name.toLowerCase() === priority);
+    if (clickupPriority) {
+      task.priority = parseInt(clickupPriority.value);
+    }
+
+    return task;
+  }
+
+  /**
+   * ClickUp user IDs for the people in a people column value; people with
+   * no ClickUp user are left out
+   */
+  static toClickUpUserIds(columnValue: MondayColumnValue, userMap?: ReverseUserMap): number[] {
+    if (!userMap) return [];
+
+    const persons: { id: number; kind: string }[] = parseSettings(columnValue.value).personsAndTeams || [];
+    return persons
+      .filter(person => person.kind === 'person')
+      .map(person => userMap.get(person.id.toString()))
+      .filter((id): id is number => id !== undefined);
+  }
+}
+
+const parseSettings = (json: string | null | undefined): any => {
+  if (!json) return {};
+  try {
+    return JSON.parse(json) || {};
+  } catch {
+    return {};
+  }
+};
+
+const toTimestamp = (date: string, time?: string): number => {
+  return new Date(`${date}T${time || '00:00:00'}Z`).getTime();
+};
+
+const findOption = (options: any[], label: string): any => {
+  const normalized = label.toLowerCase();
+  return options.find(option => (option.name || option.label || '').toLowerCase() === normalized);
+};
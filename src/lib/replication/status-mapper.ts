@@ -0,0 +1,341 @@
+import { MondayAPI } from '@/lib/api/monday';
+import { getServiceSupabase } from '@/lib/db/supabase';
+import type { ClickUpList } from '@/types/clickup';
+import type { MondayColumn } from '@/types/monday';
+
+export type StatusMappingKind = 'status' | 'priority';
+
+interface SourceLabel {
+  value: string;
+  name: string;
+  color: string | null;
+  order: number;
+}
+
+// ClickUp's fixed priority set; tasks reference these by ID
+export const CLICKUP_PRIORITIES: SourceLabel[] = [
+  { value: '1', name: 'Urgent', color: '#f50000', order: 1 },
+  { value: '2', name: 'High', color: '#ffcc00', order: 2 },
+  { value: '3', name: 'Normal', color: '#6fddff', order: 3 },
+  { value: '4', name: 'Low', color: '#d8d8d8', order: 4 },
+];
+
+const COLUMN_TITLES: Record<StatusMappingKind, string> = {
+  status: 'Status',
+  priority: 'Priority',
+};
+
+// Indexes Monday accepts for status labels; 5 is the column's blank default label
+const STATUS_LABEL_INDEXES = [
+  0, 1, 2, 3, 4, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19,
+  101, 102, 103, 104, 105, 106, 107, 108, 109, 110,
+];
+
+/**
+ * Persisted ClickUp status/priority → Monday label lookup for one replication.
+ * Values with a known label index are written by index; the rest by label,
+ * which Monday adds to the column when missing.
+ */
+export class StatusLabelMap {
+  private rows: any[];
+
+  constructor(rows: any[]) {
+    this.rows = [...rows].sort((a, b) => (a.clickup_order || 0) - (b.clickup_order || 0));
+  }
+
+  getColumnId(kind: StatusMappingKind): string | undefined {
+    return this.rows.find(row => row.kind === kind && row.monday_column_id)?.monday_column_id;
+  }
+
+  getMondayLabel(kind: StatusMappingKind, clickupValue: string | null | undefined): string | null {
+    return this.findRow(kind, clickupValue)?.monday_label || null;
+  }
+
+  /**
+   * Status column value for a ClickUp status name or priority ID
+   */
+  toMondayValue(kind: StatusMappingKind, clickupValue: string | null | undefined): any {
+    const row = this.findRow(kind, clickupValue);
+    if (!row) return clickupValue ? { label: clickupValue } : null;
+
+    return row.monday_label_index !== null && row.monday_label_index !== undefined
+      ? { index: row.monday_label_index }
+      : { label: row.monday_label };
+  }
+
+  /**
+   * ClickUp value for a Monday label. Merged labels resolve to the first
+   * ClickUp value in list order.
+   */
+  toClickUpValue(kind: StatusMappingKind, mondayLabel: string | null): string | null {
+    if (!mondayLabel) return null;
+
+    const label = mondayLabel.toLowerCase();
+    return this.rows.find(row => row.kind === kind && row.monday_label.toLowerCase() === label)?.clickup_value || null;
+  }
+
+  private findRow(kind: StatusMappingKind, clickupValue: string | null | undefined): any {
+    if (!clickupValue) return undefined;
+
+    const value = clickupValue.toLowerCase();
+    return this.rows.find(row => row.kind === kind && row.clickup_value.toLowerCase() === value);
+  }
+}
+
+/**
+ * Makes sure a replication's board has Status and Priority columns carrying
+ * a label for every ClickUp status and priority, recording the mapping in
+ * status_mappings so renames and merges survive reruns.
+ */
+export class StatusReconciler {
+  private monday: MondayAPI;
+  private replicationId: string;
+
+  constructor(monday: MondayAPI, replicationId: string) {
+    this.monday = monday;
+    this.replicationId = replicationId;
+  }
+
+  async reconcile(
+    boardId: number,
+    list: ClickUpList,
+    columns: MondayColumn[]
+  ): Promise<StatusLabelMap> {
+    const savedRows = await this.loadRows();
+
+    const statuses: SourceLabel[] = (list.statuses || []).map(status => ({
+      value: status.status,
+      name: status.status,
+      color: status.color || null,
+      order: status.orderindex,
+    }));
+
+    const rows = [
+      ...await this.reconcileKind('status', statuses, savedRows, boardId, columns),
+      ...await this.reconcileKind('priority', CLICKUP_PRIORITIES, savedRows, boardId, columns),
+    ];
+
+    return new StatusLabelMap(rows);
+  }
+
+  /**
+   * Add rows for new ClickUp values, then find or create the column and
+   * resolve each label's index on it
+   */
+  private async reconcileKind(
+    kind: StatusMappingKind,
+    sources: SourceLabel[],
+    savedRows: any[],
+    boardId: number,
+    columns: MondayColumn[]
+  ): Promise<any[]> {
+    const rows = savedRows.filter(row => row.kind === kind);
+    const savedValues = new Set(rows.map(row => row.clickup_value.toLowerCase()));
+
+    for (const source of sources) {
+      if (savedValues.has(source.value.toLowerCase())) continue;
+
+      rows.push({
+        replication_id: this.replicationId,
+        kind,
+        clickup_value: source.value,
+        clickup_name: source.name,
+        clickup_color: source.color,
+        clickup_order: source.order,
+        monday_label: source.name,
+        monday_label_index: null,
+      });
+    }
+
+    if (rows.length === 0) return rows;
+
+    const savedColumnId = rows.find(row => row.monday_column_id)?.monday_column_id;
+    const activeColumns = columns.filter(col => !col.archived && col.type === 'status');
+    const existing = activeColumns.find(col => col.id === savedColumnId)
+      || activeColumns.find(col => col.title === COLUMN_TITLES[kind]);
+
+    let columnId: string;
+    if (existing) {
+      columnId = existing.id;
+      const labelIndexes = parseLabelIndexes(existing.settings_str);
+
+      for (const row of rows) {
+        const index = labelIndexes.get(row.monday_label.toLowerCase());
+        row.monday_label_index = index !== undefined ? index : null;
+      }
+      console.log(`Reusing ${COLUMN_TITLES[kind]} column ${existing.id}`);
+    } else {
+      const { settings, indexes } = buildLabelSettings(rows);
+      const column = await this.monday.createColumn(boardId, COLUMN_TITLES[kind], 'status', settings);
+      columnId = column.id;
+
+      for (const row of rows) {
+        const index = indexes.get(row.monday_label.toLowerCase());
+        row.monday_label_index = index !== undefined ? index : null;
+      }
+      console.log(`✓ Created ${COLUMN_TITLES[kind]} column with ${indexes.size} labels`);
+    }
+
+    for (const row of rows) {
+      row.monday_column_id = columnId;
+    }
+
+    await this.saveRows(rows);
+    return rows;
+  }
+
+  private async loadRows(): Promise<any[]> {
+    const db = getServiceSupabase();
+
+    const { data } = (await db
+      .from('status_mappings')
+      .select('*')
+      .eq('replication_id', this.replicationId)) as { data: any[] | null };
+
+    return data || [];
+  }
+
+  private async saveRows(rows: any[]): Promise<void> {
+    const db = getServiceSupabase();
+
+    const { error } = (await db
+      .from('status_mappings')
+      .upsert(rows.map(row => ({
+        replication_id: this.replicationId,
+        kind: row.kind,
+        clickup_value: row.clickup_value,
+        clickup_name: row.clickup_name,
+        clickup_color: row.clickup_color,
+        clickup_order: row.clickup_order,
+        monday_column_id: row.monday_column_id,
+        monday_label: row.monday_label,
+        monday_label_index: row.monday_label_index,
+        updated_at: new Date().toISOString(),
+      })) as any, {
+        onConflict: 'replication_id,kind,clickup_value',
+      })) as { error: any };
+
+    if (error) {
+      throw new Error(`Failed to save status mappings: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Load a replication's saved status mappings, e.g. for update sync
+ */
+export const loadStatusLabelMap = async (replicationId: string): Promise<StatusLabelMap> => {
+  const db = getServiceSupabase();
+
+  const { data } = (await db
+    .from('status_mappings')
+    .select('*')
+    .eq('replication_id', replicationId)) as { data: any[] | null };
+
+  return new StatusLabelMap(data || []);
+};
+
+/**
+ * Rename the Monday label for a ClickUp status or priority. Giving several
+ * values the same label merges them. Applies to items written afterwards.
+ */
+export const saveStatusLabel = async (
+  replicationId: string,
+  kind: StatusMappingKind,
+  clickupValue: string,
+  mondayLabel: string
+): Promise<any> => {
+  const db = getServiceSupabase();
+
+  const { data: rows } = (await db
+    .from('status_mappings')
+    .select('*')
+    .eq('replication_id', replicationId)
+    .eq('kind', kind)) as { data: any[] | null };
+
+  const current = (rows || []).find(row => row.clickup_value.toLowerCase() === clickupValue.toLowerCase());
+  const mergeTarget = (rows || []).find(
+    row => row !== current && row.monday_label.toLowerCase() === mondayLabel.toLowerCase()
+  );
+
+  const priority = kind === 'priority'
+    ? CLICKUP_PRIORITIES.find(p => p.value === clickupValue)
+    : undefined;
+
+  const { data, error } = (await db
+    .from('status_mappings')
+    .upsert({
+      replication_id: replicationId,
+      kind,
+      clickup_value: current?.clickup_value || clickupValue,
+      clickup_name: current?.clickup_name || priority?.name || clickupValue,
+      clickup_color: current?.clickup_color || priority?.color || null,
+      clickup_order: current?.clickup_order ?? priority?.order ?? 0,
+      monday_column_id: current?.monday_column_id || mergeTarget?.monday_column_id || null,
+      monday_label: mondayLabel,
+      // Merging takes over the other value's label; a new label is resolved on the next run
+      monday_label_index: mergeTarget ? mergeTarget.monday_label_index : null,
+      updated_at: new Date().toISOString(),
+    } as any, {
+      onConflict: 'replication_id,kind,clickup_value',
+    })
+    .select()
+    .single()) as { data: any; error: any };
+
+  if (error) {
+    throw new Error(`Failed to save status label: ${error.message}`);
+  }
+
+  return data;
+};
+
+/**
+ * Assign label indexes in ClickUp order; merged values share one label
+ */
+const buildLabelSettings = (rows: any[]): {
+  settings: any;
+  indexes: Map<string, number>;
+} => {
+  const labels: Record<string, string> = {};
+  const labelsColors: Record<string, { color: string; border: string }> = {};
+  const indexes = new Map<string, number>();
+
+  const ordered = [...rows].sort((a, b) => (a.clickup_order || 0) - (b.clickup_order || 0));
+  for (const row of ordered) {
+    const key = row.monday_label.toLowerCase();
+    if (indexes.has(key) || indexes.size >= STATUS_LABEL_INDEXES.length) continue;
+
+    const index = STATUS_LABEL_INDEXES[indexes.size];
+    indexes.set(key, index);
+    labels[index.toString()] = row.monday_label;
+    labelsColors[index.toString()] = {
+      color: row.clickup_color || '#0073ea',
+      border: row.clickup_color || '#0073ea',
+    };
+  }
+
+  return {
+    settings: { labels, labels_colors: labelsColors },
+    indexes,
+  };
+};
+
+/**
+ * Read label name → index from a status column's settings_str
+ */
+const parseLabelIndexes = (settingsStr: string): Map<string, number> => {
+  const indexes = new Map<string, number>();
+
+  try {
+    const labels = JSON.parse(settingsStr || '{}').labels || {};
+    for (const key of Object.keys(labels)) {
+      if (labels[key]) {
+        indexes.set(labels[key].toLowerCase(), parseInt(key));
+      }
+    }
+  } catch {
+    // Unreadable settings; labels are written by name instead
+  }
+
+  return indexes;
+};
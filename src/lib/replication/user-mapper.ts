@@ -0,0 +1,229 @@
+import { ClickUpAPI } from '@/lib/api/clickup';
+import { MondayAPI } from '@/lib/api/monday';
+import { getServiceSupabase } from '@/lib/db/supabase';
+import type { ClickUpTask, ClickUpUser } from '@/types/clickup';
+import type { MondayUser } from '@/types/monday';
+
+export interface UserMatch {
+  clickupUserId: string;
+  clickupUsername: string;
+  clickupEmail: string | null;
+  mondayUserId: string | null;
+  mondayUserName?: string;
+  mondayEmail?: string;
+  source: 'email' | 'override' | 'none';
+}
+
+/**
+ * Resolved ClickUp → Monday user lookup, used when writing people columns.
+ * ClickUp user IDs mean nothing to Monday, so unmatched users are left out
+ * of people values and reported separately for a fallback text column.
+ */
+export class UserMapping {
+  private mondayUserIds: Map<string, string>;
+
+  constructor(matches: UserMatch[]) {
+    this.mondayUserIds = new Map(
+      matches
+        .filter(match => match.mondayUserId)
+        .map(match => [match.clickupUserId, match.mondayUserId!])
+    );
+  }
+
+  getMondayUserId(clickupUserId: string | number): string | undefined {
+    return this.mondayUserIds.get(clickupUserId.toString());
+  }
+
+  /**
+   * Monday people column value for the matched users, or null if none matched
+   */
+  toPeopleValue(users: Partial<ClickUpUser>[]): { personsAndTeams: { id: number; kind: 'person' }[] } | null {
+    const personsAndTeams = users
+      .map(user => user.id !== undefined ? this.getMondayUserId(user.id) : undefined)
+      .filter((id): id is string => !!id)
+      .map(id => ({ id: parseInt(id), kind: 'person' as const }));
+
+    return personsAndTeams.length > 0 ? { personsAndTeams } : null;
+  }
+
+  getUnmatchedUsers(users: Partial<ClickUpUser>[]): Partial<ClickUpUser>[] {
+    return users.filter(user => user.id === undefined || !this.getMondayUserId(user.id));
+  }
+
+  /**
+   * Text for the fallback column listing a task's users that have no Monday match,
+   * e.g. "Assignees: Ann, Bob; Reviewer: Cy". Null when everyone matched.
+   */
+  describeUnmatched(task: ClickUpTask): string | null {
+    const parts: string[] = [];
+
+    const assignees = this.getUnmatchedUsers(task.assignees || []);
+    if (assignees.length > 0) {
+      parts.push(`Assignees: ${assignees.map(formatUser).join(', ')}`);
+    }
+
+    for (const field of task.custom_fields || []) {
+      if (field.type !== 'users' || !field.value) continue;
+
+      const users = this.getUnmatchedUsers(Array.isArray(field.value) ? field.value : [field.value]);
+      if (users.length > 0) {
+        parts.push(`${field.name}: ${users.map(formatUser).join(', ')}`);
+      }
+    }
+
+    return parts.length > 0 ? parts.join('; ') : null;
+  }
+}
+
+/**
+ * Matches ClickUp workspace members to Monday users by email, with manual
+ * overrides from the user_mappings table taking precedence.
+ */
+export class UserMapper {
+  private clickup: ClickUpAPI;
+  private monday: MondayAPI;
+  private userId: string;
+
+  constructor(clickup: ClickUpAPI, monday: MondayAPI, userId: string) {
+    this.clickup = clickup;
+    this.monday = monday;
+    this.userId = userId;
+  }
+
+  /**
+   * Match every ClickUp member and return the Monday users they can be mapped to
+   */
+  async getMatches(): Promise<{ matches: UserMatch[]; mondayUsers: MondayUser[] }> {
+    const clickupUsers = await this.getClickUpMembers();
+    const mondayUsers = await this.monday.getUsers();
+    const overrides = await this.getOverrides();
+
+    const mondayById = new Map(mondayUsers.map(user => [user.id.toString(), user]));
+    const mondayByEmail = new Map(
+      mondayUsers
+        .filter(user => user.enabled !== false && user.email)
+        .map(user => [normalizeEmail(user.email), user])
+    );
+
+    const matches = clickupUsers.map((clickupUser): UserMatch => {
+      const clickupUserId = clickupUser.id.toString();
+      const base = {
+        clickupUserId,
+        clickupUsername: clickupUser.username,
+        clickupEmail: clickupUser.email || null,
+      };
+
+      if (overrides.has(clickupUserId)) {
+        const mondayUser = mondayById.get(overrides.get(clickupUserId) || '');
+        return {
+          ...base,
+          mondayUserId: mondayUser?.id.toString() || null,
+          mondayUserName: mondayUser?.name,
+          mondayEmail: mondayUser?.email,
+          source: 'override',
+        };
+      }
+
+      const mondayUser = clickupUser.email ? mondayByEmail.get(normalizeEmail(clickupUser.email)) : undefined;
+      return {
+        ...base,
+        mondayUserId: mondayUser?.id.toString() || null,
+        mondayUserName: mondayUser?.name,
+        mondayEmail: mondayUser?.email,
+        source: mondayUser ? 'email' : 'none',
+      };
+    });
+
+    return { matches, mondayUsers };
+  }
+
+  async buildMapping(): Promise<UserMapping> {
+    const { matches } = await this.getMatches();
+    const matched = matches.filter(match => match.mondayUserId).length;
+    console.log(`Matched ${matched} of ${matches.length} ClickUp users to Monday users`);
+
+    return new UserMapping(matches);
+  }
+
+  /**
+   * Members of every ClickUp workspace the token can see, without duplicates
+   */
+  private async getClickUpMembers(): Promise<ClickUpUser[]> {
+    const workspaces = await this.clickup.getWorkspaces();
+    const users = new Map<string, ClickUpUser>();
+
+    for (const workspace of workspaces) {
+      for (const member of workspace.members || []) {
+        if (member.user) {
+          users.set(member.user.id.toString(), member.user);
+        }
+      }
+    }
+
+    return Array.from(users.values());
+  }
+
+  /**
+   * Manual overrides keyed by ClickUp user ID; a null value means "don't map"
+   */
+  private async getOverrides(): Promise<Map<string, string | null>> {
+    const db = getServiceSupabase();
+
+    const { data } = (await db
+      .from('user_mappings')
+      .select('clickup_user_id, monday_user_id')
+      .eq('user_id', this.userId)) as { data: any[] | null };
+
+    return new Map((data || []).map(row => [row.clickup_user_id, row.monday_user_id]));
+  }
+}
+
+/**
+ * Store a manual mapping for one ClickUp user. Pass null to keep them unmapped.
+ */
+export const saveUserMappingOverride = async (
+  userId: string,
+  clickupUserId: string,
+  mondayUserId: string | null,
+  clickupEmail?: string
+): Promise<void> => {
+  const db = getServiceSupabase();
+
+  const { error } = (await db
+    .from('user_mappings')
+    .upsert({
+      user_id: userId,
+      clickup_user_id: clickupUserId,
+      clickup_email: clickupEmail || null,
+      monday_user_id: mondayUserId,
+      updated_at: new Date().toISOString(),
+    } as any, {
+      onConflict: 'user_id,clickup_user_id',
+    })) as { error: any };
+
+  if (error) {
+    throw new Error(`Failed to save user mapping: ${error.message}`);
+  }
+};
+
+/**
+ * Remove a manual mapping so the user falls back to matching by email
+ */
+export const deleteUserMappingOverride = async (
+  userId: string,
+  clickupUserId: string
+): Promise<void> => {
+  const db = getServiceSupabase();
+
+  await (db
+    .from('user_mappings')
+    .delete()
+    .eq('user_id', userId)
+    .eq('clickup_user_id', clickupUserId) as any);
+};
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+const formatUser = (user: Partial<ClickUpUser>): string => {
+  return user.username || user.email || `ClickUp user ${user.id}`;
+};
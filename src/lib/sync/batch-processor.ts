@@ -1,5 +1,6 @@
 import { getServiceSupabase } from '@/lib/db/supabase';
 import { ExponentialBackoff } from '@/lib/utils/rate-limiter';
+import type { JobControl, JobHaltReason } from './job-control';
 
 export interface BatchTask {
   id: string;
@@ -13,6 +14,7 @@ export interface BatchResult<T = any> {
   skipped: number;
   results: TaskResult<T>[];
   duration: number;
+  halted?: JobHaltReason;
 }
 
 export interface TaskResult<T = any> {
@@ -25,15 +27,32 @@ export interface TaskResult<T = any> {
   duration: number;
 }
 
+/**
+ * Anything that reports how many requests it can still make in the current
+ * rate-limit window. ClickUpAPI and MondayAPI both fit.
+ */
+export interface RateLimitedClient {
+  getRateLimitStatus(): { remaining: number };
+}
+
 export interface BatchOptions {
   maxRetries?: number;
   parallel?: boolean;
   maxParallel?: number;
   delayBetweenBatches?: number;
+  rateLimitedClients?: RateLimitedClient[]; // Parallel mode scales concurrency down as their quota runs low
   onProgress?: (processed: number, total: number) => void;
   onError?: (error: Error, task: BatchTask) => void;
+  jobControl?: JobControl; // Checked between tasks; processing stops once the job is paused or cancelled
 }
 
+// Rough number of API requests one task makes, for sizing parallel batches
+const REQUESTS_PER_TASK = 5;
+
+type ResolvedBatchOptions = Required<Pick<BatchOptions,
+  'maxRetries' | 'maxParallel' | 'rateLimitedClients'
+>> & Pick<BatchOptions, 'onError' | 'jobControl'>;
+
 export class BatchProcessor<T extends BatchTask = BatchTask> {
   private jobId: string;
   private backoff: ExponentialBackoff;
@@ -58,22 +77,35 @@ export class BatchProcessor<T extends BatchTask = BatchTask> {
     let successful = 0;
     let failed = 0;
     let skipped = 0;
+    let halted: JobHaltReason | undefined;
 
     const {
       maxRetries = 3,
       parallel = false,
       maxParallel = 5,
       delayBetweenBatches = 650,
+      rateLimitedClients = [],
       onProgress,
       onError,
+      jobControl,
     } = options;
-    
-    for (const [index, batch] of batches.entries()) {
+
+    const settings: ResolvedBatchOptions = {
+      maxRetries,
+      maxParallel,
+      rateLimitedClients,
+      onError,
+      jobControl,
+    };
+
+    for (let index = 0; index < batches.length; index++) {
+      const batch = batches[index];
+
       try {
         // Process batch (parallel or sequential)
         const batchResults = parallel
-          ? await this.processParallel(batch, processor, maxParallel, maxRetries, onError)
-          : await this.processSequential(batch, processor, maxRetries, onError);
+          ? await this.processParallel(batch, processor, settings)
+          : await this.processSequential(batch, processor, settings);
 
         // Count results
         for (const result of batchResults) {
@@ -89,8 +121,7 @@ export class BatchProcessor<T extends BatchTask = BatchTask> {
         results.push(...batchResults);
 
         // Update progress
-        const processed = (index + 1) * (batchSize === 0 ? tasks.length : batchSize);
-        const actualProcessed = Math.min(processed, tasks.length);
+        const actualProcessed = results.length;
 
         await this.updateProgress(actualProcessed, tasks.length);
 
@@ -99,6 +130,12 @@ export class BatchProcessor<T extends BatchTask = BatchTask> {
           onProgress(actualProcessed, tasks.length);
         }
 
+        halted = (await jobControl?.check()) || undefined;
+        if (halted) {
+          console.log(`Stopping after ${actualProcessed}/${tasks.length} tasks: job was ${halted}`);
+          break;
+        }
+
         // Wait between batches
         if (index < batches.length - 1 && delayBetweenBatches > 0) {
           await this.wait(delayBetweenBatches);
@@ -116,22 +153,24 @@ export class BatchProcessor<T extends BatchTask = BatchTask> {
       skipped,
       results,
       duration: Date.now() - startTime,
+      halted,
     };
   }
 
   /**
-   * Process tasks sequentially with retry logic
+   * Process tasks sequentially with retry logic, stopping early if the job is halted
    */
   private async processSequential<R>(
     tasks: T[],
     processor: (task: T) => Promise<R>,
-    maxRetries: number,
-    onError?: (error: Error, task: T) => void
+    settings: ResolvedBatchOptions
   ): Promise<TaskResult<R>[]> {
     const results: TaskResult<R>[] = [];
 
     for (const task of tasks) {
-      const result = await this.processTaskWithRetry(task, processor, maxRetries, onError);
+      if (await settings.jobControl?.check()) break;
+
+      const result = await this.processTaskWithRetry(task, processor, settings);
       results.push(result);
     }
 
@@ -139,39 +178,59 @@ export class BatchProcessor<T extends BatchTask = BatchTask> {
   }
 
   /**
-   * Process tasks in parallel with concurrency limit
+   * Process tasks through a bounded pool. Results come back in task order
+   * regardless of completion order; if the job is halted, tasks not yet
+   * started are left out and in-flight ones are allowed to finish.
    */
   private async processParallel<R>(
     tasks: T[],
     processor: (task: T) => Promise<R>,
-    maxParallel: number,
-    maxRetries: number,
-    onError?: (error: Error, task: T) => void
+    settings: ResolvedBatchOptions
   ): Promise<TaskResult<R>[]> {
-    const results: TaskResult<R>[] = [];
-    const queue = [...tasks];
-    const inProgress: Promise<TaskResult<R>>[] = [];
-
-    while (queue.length > 0 || inProgress.length > 0) {
-      // Fill up to max parallel tasks
-      while (queue.length > 0 && inProgress.length < maxParallel) {
-        const task = queue.shift()!;
-        const promise = this.processTaskWithRetry(task, processor, maxRetries, onError);
-        inProgress.push(promise);
+    const results: (TaskResult<R> | undefined)[] = new Array(tasks.length);
+    const inFlight = new Map<number, Promise<void>>();
+    let nextIndex = 0;
+    let halted = false;
+
+    while (nextIndex < tasks.length || inFlight.size > 0) {
+      halted = halted || !!(await settings.jobControl?.check());
+
+      // Fill free slots, re-reading the concurrency limit each time a slot opens
+      const limit = this.getConcurrencyLimit(settings);
+      while (!halted && nextIndex < tasks.length && inFlight.size < limit) {
+        const index = nextIndex++;
+        const promise = this.processTaskWithRetry(tasks[index], processor, settings)
+          .then((result) => {
+            results[index] = result;
+            inFlight.delete(index);
+          });
+        inFlight.set(index, promise);
       }
 
-      // Wait for one to complete
-      const result = await Promise.race(inProgress);
-      results.push(result);
+      if (inFlight.size === 0) break;
 
-      // Remove completed from in progress
-      const index = inProgress.findIndex(p => p === Promise.resolve(result));
-      if (index !== -1) {
-        inProgress.splice(index, 1);
-      }
+      // processTaskWithRetry never rejects, so this only waits for a free slot
+      await Promise.race(Array.from(inFlight.values()));
     }
 
-    return results;
+    return results.filter((result): result is TaskResult<R> => !!result);
+  }
+
+  /**
+   * Scale concurrency to the tightest remaining rate-limit quota across the
+   * API clients, so parallel tasks don't all queue behind the rate limiter
+   */
+  private getConcurrencyLimit(settings: ResolvedBatchOptions): number {
+    if (settings.rateLimitedClients.length === 0) {
+      return Math.max(1, settings.maxParallel);
+    }
+
+    const remaining = Math.min(
+      ...settings.rateLimitedClients.map(client => client.getRateLimitStatus().remaining)
+    );
+    const affordable = Math.floor(remaining / REQUESTS_PER_TASK);
+
+    return Math.max(1, Math.min(settings.maxParallel, affordable));
   }
 
   /**
@@ -180,9 +239,9 @@ export class BatchProcessor<T extends BatchTask = BatchTask> {
   private async processTaskWithRetry<R>(
     task: T,
     processor: (task: T) => Promise<R>,
-    maxRetries: number,
-    onError?: (error: Error, task: T) => void
+    settings: ResolvedBatchOptions
   ): Promise<TaskResult<R>> {
+    const { maxRetries, onError } = settings;
     const startTime = Date.now();
     let retryCount = 0;
     let lastError: Error | undefined;
@@ -258,7 +317,6 @@ export class BatchProcessor<T extends BatchTask = BatchTask> {
         .update({
           processed_tasks: processed,
           total_tasks: total,
-          status: processed >= total ? 'completed' : 'running',
         } as any)
         .eq('id', this.jobId) as any);
     } catch (error) {
@@ -1,13 +1,31 @@
-import { generateFileHash, compareHashes } from '@/lib/utils/hash';
+import { compareHashes } from '@/lib/utils/hash';
 import type { ClickUpAttachment } from '@/types/clickup';
 import type { MondayAsset } from '@/types/monday';
 
 export interface DuplicateCheckResult {
   isDuplicate: boolean;
   matchedAsset?: MondayAsset;
+  matchedAttachment?: ClickUpAttachment;
+  matchedTransfer?: TransferredFile;
+  isNewVersion?: boolean; // Same name as an earlier transfer, but the content changed
   reason?: string;
 }
 
+// A file_transfers row with the hash of the content that was sent
+export interface TransferredFile {
+  fileName: string;
+  fileHash: string;
+  version: number;
+  clickupTaskId: string;
+  mondayItemId: string | null;
+}
+
+// Earlier transfers to compare a file's hash against, newest first
+export interface TransferHistory {
+  target: TransferredFile[]; // To the same item or task
+  board: TransferredFile[]; // To any item of the board; empty unless board-wide detection is on
+}
+
 export class DuplicateChecker {
   /**
    * Check if a file already exists in Monday by comparing name and size
@@ -34,16 +52,55 @@ export class DuplicateChecker {
   }
 
   /**
-   * Check if a file already exists by comparing file hash
+   * Check a file's content against earlier transfers. The last transfer of
+   * a file with the same name decides whether it's unchanged or a new
+   * version; otherwise the same content under another name, or on another
+   * item of the board, is a duplicate.
    */
-  static async checkByHash(
-    fileBuffer: Buffer,
-    existingAssets: MondayAsset[]
-  ): Promise<DuplicateCheckResult> {
-    const newFileHash = generateFileHash(fileBuffer);
+  static checkByHash(
+    fileHash: string,
+    fileName: string,
+    history: TransferHistory
+  ): DuplicateCheckResult {
+    const lastTransfer = history.target.find(
+      transfer => transfer.fileName.toLowerCase() === fileName.toLowerCase()
+    );
+
+    if (lastTransfer) {
+      if (compareHashes(lastTransfer.fileHash, fileHash)) {
+        return {
+          isDuplicate: true,
+          matchedTransfer: lastTransfer,
+          reason: 'Unchanged since last transfer',
+        };
+      }
+
+      return {
+        isDuplicate: false,
+        isNewVersion: true,
+        matchedTransfer: lastTransfer,
+        reason: 'Content changed since last transfer',
+      };
+    }
+
+    const renamed = history.target.find(transfer => compareHashes(transfer.fileHash, fileHash));
+    if (renamed) {
+      return {
+        isDuplicate: true,
+        matchedTransfer: renamed,
+        reason: `Same content as ${renamed.fileName}`,
+      };
+    }
+
+    const elsewhere = history.board.find(transfer => compareHashes(transfer.fileHash, fileHash));
+    if (elsewhere) {
+      return {
+        isDuplicate: true,
+        matchedTransfer: elsewhere,
+        reason: `Same content as ${elsewhere.fileName} on item ${elsewhere.mondayItemId}`,
+      };
+    }
 
-    // Note: Monday doesn't provide file hashes, so we'd need to store them separately
-    // For now, this is a placeholder for future enhancement
     return { isDuplicate: false };
   }
 
@@ -53,23 +110,63 @@ export class DuplicateChecker {
   static async check(
     attachment: ClickUpAttachment,
     existingAssets: MondayAsset[],
-    fileBuffer?: Buffer
+    fileHash?: string,
+    history?: TransferHistory
   ): Promise<DuplicateCheckResult> {
-    // Strategy 1: Check by name and size (fast)
-    const nameSizeCheck = this.checkByNameAndSize(attachment, existingAssets);
-    if (nameSizeCheck.isDuplicate) {
-      return nameSizeCheck;
+    // Strategy 1: Check by hash against earlier transfers (catches renames and changed content)
+    if (fileHash && history) {
+      const hashCheck = this.checkByHash(fileHash, attachment.title, history);
+      if (hashCheck.isDuplicate || hashCheck.isNewVersion) {
+        return hashCheck;
+      }
     }
 
-    // Strategy 2: Check by hash (if buffer provided)
-    if (fileBuffer) {
-      const hashCheck = await this.checkByHash(fileBuffer, existingAssets);
-      if (hashCheck.isDuplicate) {
+    // Strategy 2: Check by name and size, for files that didn't come from a transfer
+    return this.checkByNameAndSize(attachment, existingAssets);
+  }
+
+  /**
+   * Check if a Monday file is already attached to the ClickUp task, by
+   * comparing name and size
+   */
+  static checkAssetByNameAndSize(
+    asset: MondayAsset,
+    existingAttachments: ClickUpAttachment[]
+  ): DuplicateCheckResult {
+    const match = existingAttachments.find(
+      attachment =>
+        attachment.title.toLowerCase() === asset.name.toLowerCase() &&
+        Number(attachment.size) === Number(asset.file_size)
+    );
+
+    if (match) {
+      return {
+        isDuplicate: true,
+        matchedAttachment: match,
+        reason: 'Name and size match',
+      };
+    }
+
+    return { isDuplicate: false };
+  }
+
+  /**
+   * Check if a Monday file already exists in ClickUp, the same way as check
+   */
+  static checkAsset(
+    asset: MondayAsset,
+    existingAttachments: ClickUpAttachment[],
+    fileHash?: string,
+    history?: TransferHistory
+  ): DuplicateCheckResult {
+    if (fileHash && history) {
+      const hashCheck = this.checkByHash(fileHash, asset.name, history);
+      if (hashCheck.isDuplicate || hashCheck.isNewVersion) {
         return hashCheck;
       }
     }
 
-    return { isDuplicate: false };
+    return this.checkAssetByNameAndSize(asset, existingAttachments);
   }
 
   /**
@@ -120,4 +217,31 @@ export class DuplicateChecker {
 
     return { valid: true };
   }
+
+  /**
+   * Validate a Monday file before upload to ClickUp
+   */
+  static validateAsset(
+    asset: MondayAsset,
+    options?: {
+      maxSizeBytes?: number;
+      allowedExtensions?: string[];
+    }
+  ): { valid: boolean; error?: string } {
+    if (!this.isWithinSizeLimit(Number(asset.file_size), options?.maxSizeBytes)) {
+      return {
+        valid: false,
+        error: `File size ${asset.file_size} exceeds maximum allowed size`,
+      };
+    }
+
+    if (!this.isAllowedFileType(asset.name, options?.allowedExtensions)) {
+      return {
+        valid: false,
+        error: `File type not allowed: ${asset.file_extension}`,
+      };
+    }
+
+    return { valid: true };
+  }
 }
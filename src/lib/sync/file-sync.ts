@@ -1,15 +1,43 @@
 import { ClickUpAPI } from '@/lib/api/clickup';
 import { MondayAPI } from '@/lib/api/monday';
-import { DuplicateChecker } from './duplicate-checker';
-import { getServiceSupabase } from '@/lib/db/supabase';
+import { DuplicateChecker, TransferHistory, TransferredFile } from './duplicate-checker';
+import { TaskMatcher, TaskMatchResult } from './task-matcher';
+import { JobControl, JobHaltedError } from './job-control';
+import { BatchProcessor } from './batch-processor';
+import { getServiceSupabase, logActivity, LOOKUP_CHUNK_SIZE } from '@/lib/db/supabase';
+import { generateFileHash } from '@/lib/utils/hash';
+import { TTLCache } from '@/lib/utils/cache';
 import type { ClickUpTask, ClickUpAttachment } from '@/types/clickup';
-import type { MondayItem } from '@/types/monday';
+import type { MondayAsset, MondayItem } from '@/types/monday';
 import type { SyncOptions, SyncProgress, SyncError } from '@/types';
 
+type TransferDirection = NonNullable<SyncOptions['direction']>;
+
+interface FileTransferLog {
+  clickupTaskId: string;
+  mondayItemId: string;
+  mondayBoardId: string;
+  fileName: string;
+  fileSize: number;
+  fileHash?: string;
+  version?: number;
+  status: 'pending' | 'transferred' | 'skipped' | 'failed';
+  direction: TransferDirection;
+}
+
+// Outcome of syncing one task's or item's files
+interface FilesResult {
+  status: TaskMatchResult['status'];
+  transferred: number;
+  skipped: number;
+}
+
 export interface FileSyncResult {
   success: boolean;
   filesTransferred: number;
   filesSkipped: number;
+  tasksUnmatched: number;
+  tasksAmbiguous: number;
   errors: SyncError[];
 }
 
@@ -18,6 +46,9 @@ export class FileSyncEngine {
   private mondayClient: MondayAPI;
   private jobId: string;
   private userId: string;
+  private jobControl: JobControl;
+  private fileColumnIds = new TTLCache<string>();
+  private boardTransfers = new TTLCache<TransferredFile[]>();
 
   constructor(
     clickupAccessToken: string,
@@ -29,56 +60,92 @@ export class FileSyncEngine {
     this.mondayClient = new MondayAPI(mondayAccessToken);
     this.jobId = jobId;
     this.userId = userId;
+    this.jobControl = new JobControl(jobId);
   }
 
   /**
-   * Sync files from ClickUp tasks to Monday items
+   * Sync files from ClickUp tasks to Monday items, or the other way round
+   * with direction monday_to_clickup
    */
   async syncFiles(
     clickupListId: string,
     mondayBoardId: number,
     options: SyncOptions
   ): Promise<FileSyncResult> {
+    if (options.direction === 'monday_to_clickup') {
+      return this.syncFilesToClickUp(clickupListId, mondayBoardId, options);
+    }
+
     const result: FileSyncResult = {
       success: true,
       filesTransferred: 0,
       filesSkipped: 0,
+      tasksUnmatched: 0,
+      tasksAmbiguous: 0,
       errors: [],
     };
 
     try {
       // Get all tasks with attachments from ClickUp
       console.log(`Fetching tasks with attachments from ClickUp list ${clickupListId}...`);
-      const tasksWithAttachments = await this.clickupClient.getTasksWithAttachments(clickupListId);
+      const tasksWithAttachments = (await this.clickupClient.getTasksWithAttachments(clickupListId))
+        .filter(task => !options.clickupTaskIds?.length || options.clickupTaskIds.includes(task.id));
 
       console.log(`Found ${tasksWithAttachments.length} tasks with attachments`);
       await this.updateProgress(tasksWithAttachments.length, 0);
 
-      // Process each task
-      for (let i = 0; i < tasksWithAttachments.length; i++) {
-        const task = tasksWithAttachments[i];
+      const matcher = new TaskMatcher(this.mondayClient, mondayBoardId);
+      const batchProcessor = new BatchProcessor<ClickUpTask>(this.jobId);
 
-        try {
-          await this.syncTaskFiles(task, mondayBoardId, options);
-          result.filesTransferred += task.attachments?.length || 0;
+      // Process tasks in batches; the processor also records progress on the job
+      const batchResult = await batchProcessor.processBatch(
+        tasksWithAttachments,
+        options.batchSize,
+        (task) => this.syncTaskFiles(task, matcher, options),
+        {
+          maxRetries: 0, // API calls already retry; a retried task would re-upload its files
+          parallel: options.parallel ?? false,
+          maxParallel: options.maxParallel,
+          rateLimitedClients: [this.clickupClient, this.mondayClient],
+          jobControl: this.jobControl,
+          onError: (error, task) => {
+            console.error(`Error syncing files for task ${task.name}:`, error);
+          },
+        }
+      );
 
-          await this.updateProgress(tasksWithAttachments.length, i + 1);
-        } catch (error: any) {
+      for (const taskResult of batchResult.results) {
+        if (!taskResult.success) {
           result.success = false;
           result.errors.push({
-            taskId: task.id,
-            taskName: task.name,
-            error: error.message,
+            taskId: taskResult.taskId,
+            taskName: taskResult.taskName || taskResult.taskId,
+            error: taskResult.error || 'Unknown error',
             timestamp: new Date().toISOString(),
-            retryCount: 0,
+            retryCount: taskResult.retryCount,
           });
-
-          console.error(`Error syncing files for task ${task.name}:`, error);
+        } else if (taskResult.data?.status === 'matched') {
+          result.filesTransferred += taskResult.data.transferred;
+          result.filesSkipped += taskResult.data.skipped;
+        } else if (taskResult.data?.status === 'ambiguous') {
+          result.tasksAmbiguous++;
+        } else {
+          result.tasksUnmatched++;
         }
       }
 
+      // Stop between tasks if the job was paused or cancelled
+      if (batchResult.halted) {
+        throw new JobHaltedError(batchResult.halted, this.jobId);
+      }
+
       return result;
     } catch (error: any) {
+      if (error instanceof JobHaltedError) {
+        console.log(`File sync stopped: ${error.message}`);
+        throw error;
+      }
+
       console.error('File sync failed:', error);
       result.success = false;
       result.errors.push({
@@ -98,19 +165,38 @@ export class FileSyncEngine {
    */
   private async syncTaskFiles(
     task: ClickUpTask,
-    mondayBoardId: number,
+    matcher: TaskMatcher,
     options: SyncOptions
-  ): Promise<void> {
-    // Find matching Monday item by name
-    const mondayItems = await this.mondayClient.searchItemsByName(mondayBoardId, task.name);
+  ): Promise<FilesResult> {
+    const match = await matcher.match(task);
+    const taskResult: FilesResult = { status: match.status, transferred: 0, skipped: 0 };
 
-    if (mondayItems.length === 0) {
+    if (match.status === 'unmatched') {
       console.warn(`No matching Monday item found for task: ${task.name}`);
-      return;
+      return taskResult;
     }
 
-    // Use the first match (could be enhanced with better matching logic)
-    const mondayItem = mondayItems[0];
+    if (match.status === 'ambiguous') {
+      // Never guess: sending files to the wrong item is worse than skipping
+      console.warn(`Ambiguous Monday match for task ${task.name}: ${match.reason}`);
+      await logActivity(this.userId, 'task_match_ambiguous', {
+        clickupTaskId: task.id,
+        clickupTaskName: task.name,
+        strategy: match.strategy,
+        reason: match.reason,
+        candidates: match.candidates?.map(candidate => ({
+          mondayItemId: candidate.item.id,
+          mondayItemName: candidate.item.name,
+          confidence: candidate.confidence,
+        })),
+      }, this.jobId);
+      return taskResult;
+    }
+
+    const mondayItem = match.item!;
+    console.log(
+      `Matched task ${task.name} to Monday item ${mondayItem.id} via ${match.strategy} (confidence ${match.confidence.toFixed(2)})`
+    );
 
     // Get existing assets on the Monday item
     const existingAssets = mondayItem.assets || [];
@@ -118,13 +204,14 @@ export class FileSyncEngine {
     // Process each attachment
     for (const attachment of task.attachments || []) {
       try {
-        await this.transferAttachment(
+        const outcome = await this.transferAttachment(
           task,
           attachment,
           mondayItem,
           existingAssets,
           options
         );
+        if (outcome) taskResult[outcome]++;
       } catch (error: any) {
         console.error(`Failed to transfer attachment ${attachment.title}:`, error);
         throw error;
@@ -135,10 +222,13 @@ export class FileSyncEngine {
     if (options.clickupLinkField) {
       await this.addClickUpLink(mondayItem.id, options.clickupLinkField, task.url);
     }
+
+    return taskResult;
   }
 
   /**
-   * Transfer a single attachment from ClickUp to Monday
+   * Transfer a single attachment from ClickUp to Monday; returns whether it
+   * was sent or skipped as a duplicate, or null when it was left alone
    */
   private async transferAttachment(
     task: ClickUpTask,
@@ -146,29 +236,52 @@ export class FileSyncEngine {
     mondayItem: MondayItem,
     existingAssets: any[],
     options: SyncOptions
-  ): Promise<void> {
+  ): Promise<'transferred' | 'skipped' | null> {
     // Validate file
     const validation = DuplicateChecker.validateFile(attachment);
     if (!validation.valid) {
       console.warn(`Skipping invalid file ${attachment.title}: ${validation.error}`);
-      return;
+      return null;
     }
 
+    // A resumed job skips files it already transferred before it was paused
+    if (await this.wasTransferredByJob(task.id, mondayItem.id, attachment.title, 'clickup_to_monday')) {
+      console.log(`Skipping ${attachment.title}: already transferred by this job`);
+      return null;
+    }
+
+    // Download file from ClickUp; its hash is compared with earlier transfers and stored
+    console.log(`Downloading ${attachment.title} from ClickUp...`);
+    const fileBuffer = await this.clickupClient.downloadAttachment(attachment.url);
+    const fileHash = generateFileHash(fileBuffer);
+    const transfer: FileTransferLog = {
+      clickupTaskId: task.id,
+      mondayItemId: mondayItem.id,
+      mondayBoardId: mondayItem.board.id,
+      fileName: attachment.title,
+      fileSize: attachment.size,
+      fileHash,
+      status: 'transferred',
+      direction: 'clickup_to_monday',
+    };
+
     // Check for duplicates if enabled
     if (options.skipDuplicates) {
-      const duplicateCheck = await DuplicateChecker.check(attachment, existingAssets);
+      const history = await this.getTransferHistory(transfer, options);
+      const duplicateCheck = await DuplicateChecker.check(attachment, existingAssets, fileHash, history);
       if (duplicateCheck.isDuplicate) {
         console.log(
           `Skipping duplicate file: ${attachment.title} (${duplicateCheck.reason})`
         );
-        await this.logFileTransfer(task.id, mondayItem.id, attachment, 'skipped');
-        return;
+        await this.logFileTransfer({ ...transfer, status: 'skipped' });
+        return 'skipped';
       }
-    }
 
-    // Download file from ClickUp
-    console.log(`Downloading ${attachment.title} from ClickUp...`);
-    const fileBuffer = await this.clickupClient.downloadAttachment(attachment.url);
+      if (duplicateCheck.isNewVersion) {
+        transfer.version = duplicateCheck.matchedTransfer!.version + 1;
+        console.log(`${attachment.title} changed since it was last transferred; sending version ${transfer.version}`);
+      }
+    }
 
     // Upload to Monday
     console.log(`Uploading ${attachment.title} to Monday item ${mondayItem.id}...`);
@@ -185,13 +298,218 @@ export class FileSyncEngine {
     );
 
     console.log(`✓ Successfully transferred ${attachment.title}`);
-    await this.logFileTransfer(task.id, mondayItem.id, attachment, 'transferred');
+    await this.logFileTransfer(transfer);
+    return 'transferred';
   }
 
   /**
-   * Ensure a file column exists on the board
+   * Sync files from Monday items, including files posted in their updates,
+   * to the ClickUp tasks they are mapped to
    */
-  private async ensureFileColumn(boardId: number): Promise<string> {
+  private async syncFilesToClickUp(
+    clickupListId: string,
+    mondayBoardId: number,
+    options: SyncOptions
+  ): Promise<FileSyncResult> {
+    const result: FileSyncResult = {
+      success: true,
+      filesTransferred: 0,
+      filesSkipped: 0,
+      tasksUnmatched: 0,
+      tasksAmbiguous: 0,
+      errors: [],
+    };
+
+    try {
+      // Only tasks of the list are valid targets; their attachments are the duplicate baseline
+      const tasks = await this.clickupClient.getAllListTasks(clickupListId, { includeClosed: true });
+      const tasksById = new Map<string, ClickUpTask>();
+      for (const task of tasks) {
+        tasksById.set(task.id, task);
+        if (task.custom_id) tasksById.set(task.custom_id, task);
+      }
+
+      console.log(`Fetching mapped items from Monday board ${mondayBoardId}...`);
+      const boardItems = await this.mondayClient.getItems(mondayBoardId);
+      const mappedTaskIds = await this.getMappedTaskIds(boardItems.map(item => item.id));
+
+      // Files and updates are only fetched for items with a task to send them to
+      const taskByItem = new Map<string, ClickUpTask>();
+      for (const item of boardItems) {
+        const task = findMappedTask(item, mappedTaskIds, tasksById);
+        if (task && (!options.clickupTaskIds?.length || options.clickupTaskIds.includes(task.id))) {
+          taskByItem.set(item.id, task);
+        }
+      }
+      if (!options.clickupTaskIds?.length) {
+        result.tasksUnmatched = boardItems.length - taskByItem.size;
+      }
+
+      const itemsWithFiles = (await this.mondayClient.getItemDetails(Array.from(taskByItem.keys())))
+        .filter(item => getItemFiles(item).length > 0);
+
+      console.log(`Found ${itemsWithFiles.length} mapped items with files`);
+      await this.updateProgress(itemsWithFiles.length, 0);
+
+      const batchProcessor = new BatchProcessor<MondayItem>(this.jobId);
+
+      const batchResult = await batchProcessor.processBatch(
+        itemsWithFiles,
+        options.batchSize,
+        (item) => this.syncItemFiles(item, taskByItem.get(item.id)!, options),
+        {
+          maxRetries: 0, // API calls already retry; a retried item would re-upload its files
+          parallel: options.parallel ?? false,
+          maxParallel: options.maxParallel,
+          rateLimitedClients: [this.clickupClient, this.mondayClient],
+          jobControl: this.jobControl,
+          onError: (error, item) => {
+            console.error(`Error syncing files for item ${item.name}:`, error);
+          },
+        }
+      );
+
+      for (const itemResult of batchResult.results) {
+        if (!itemResult.success) {
+          result.success = false;
+          result.errors.push({
+            taskId: itemResult.taskId,
+            taskName: itemResult.taskName || itemResult.taskId,
+            error: itemResult.error || 'Unknown error',
+            timestamp: new Date().toISOString(),
+            retryCount: itemResult.retryCount,
+          });
+        } else if (itemResult.data) {
+          result.filesTransferred += itemResult.data.transferred;
+          result.filesSkipped += itemResult.data.skipped;
+        }
+      }
+
+      if (batchResult.halted) {
+        throw new JobHaltedError(batchResult.halted, this.jobId);
+      }
+
+      return result;
+    } catch (error: any) {
+      if (error instanceof JobHaltedError) {
+        console.log(`File sync stopped: ${error.message}`);
+        throw error;
+      }
+
+      console.error('File sync failed:', error);
+      result.success = false;
+      result.errors.push({
+        taskId: 'N/A',
+        taskName: 'File Sync',
+        error: error.message,
+        timestamp: new Date().toISOString(),
+        retryCount: 0,
+      });
+
+      return result;
+    }
+  }
+
+  /**
+   * Attach one item's files to its ClickUp task
+   */
+  private async syncItemFiles(
+    item: MondayItem,
+    task: ClickUpTask,
+    options: SyncOptions
+  ): Promise<FilesResult> {
+    const itemResult: FilesResult = { status: 'matched', transferred: 0, skipped: 0 };
+
+    console.log(`Syncing files of item ${item.name} to ClickUp task ${task.id}`);
+
+    // Files uploaded here are added too, so a file in a column and an update is sent once
+    const existingAttachments = [...(task.attachments || [])];
+
+    for (const asset of getItemFiles(item)) {
+      const validation = DuplicateChecker.validateAsset(asset);
+      if (!validation.valid) {
+        console.warn(`Skipping invalid file ${asset.name}: ${validation.error}`);
+        continue;
+      }
+
+      if (await this.wasTransferredByJob(task.id, item.id, asset.name, 'monday_to_clickup')) {
+        console.log(`Skipping ${asset.name}: already transferred by this job`);
+        continue;
+      }
+
+      console.log(`Downloading ${asset.name} from Monday...`);
+      const fileBuffer = await this.mondayClient.downloadAsset(asset);
+      const transfer: FileTransferLog = {
+        clickupTaskId: task.id,
+        mondayItemId: item.id,
+        mondayBoardId: item.board.id,
+        fileName: asset.name,
+        fileSize: asset.file_size,
+        fileHash: generateFileHash(fileBuffer),
+        status: 'transferred',
+        direction: 'monday_to_clickup',
+      };
+
+      if (options.skipDuplicates) {
+        const history = await this.getTransferHistory(transfer, options);
+        const duplicateCheck = DuplicateChecker.checkAsset(asset, existingAttachments, transfer.fileHash, history);
+        if (duplicateCheck.isDuplicate) {
+          console.log(`Skipping duplicate file: ${asset.name} (${duplicateCheck.reason})`);
+          await this.logFileTransfer({ ...transfer, status: 'skipped' });
+          itemResult.skipped++;
+          continue;
+        }
+
+        if (duplicateCheck.isNewVersion) {
+          transfer.version = duplicateCheck.matchedTransfer!.version + 1;
+          console.log(`${asset.name} changed since it was last transferred; sending version ${transfer.version}`);
+        }
+      }
+
+      // ClickUp keeps an attachment uploaded under an existing name as a new version of it
+      console.log(`Uploading ${asset.name} to ClickUp task ${task.id}...`);
+      await this.clickupClient.uploadAttachment(task.id, fileBuffer, asset.name);
+
+      existingAttachments.push({ title: asset.name, size: asset.file_size } as ClickUpAttachment);
+      console.log(`✓ Successfully transferred ${asset.name}`);
+      await this.logFileTransfer(transfer);
+      itemResult.transferred++;
+    }
+
+    return itemResult;
+  }
+
+  /**
+   * ClickUp task IDs recorded in task_mappings for the given items
+   */
+  private async getMappedTaskIds(itemIds: string[]): Promise<Map<string, string>> {
+    const db = getServiceSupabase();
+    const taskIds = new Map<string, string>();
+
+    for (let i = 0; i < itemIds.length; i += LOOKUP_CHUNK_SIZE) {
+      const { data } = (await db
+        .from('task_mappings')
+        .select('clickup_task_id, monday_item_id')
+        .eq('entity_type', 'task')
+        .in('monday_item_id', itemIds.slice(i, i + LOOKUP_CHUNK_SIZE))) as { data: any[] | null };
+
+      for (const mapping of data || []) {
+        taskIds.set(mapping.monday_item_id, mapping.clickup_task_id);
+      }
+    }
+
+    return taskIds;
+  }
+
+  /**
+   * Ensure a file column exists on the board. The lookup is shared so tasks
+   * syncing in parallel don't each create a "Files" column.
+   */
+  private ensureFileColumn(boardId: number): Promise<string> {
+    return this.fileColumnIds.getOrLoad(boardId.toString(), () => this.findOrCreateFileColumn(boardId));
+  }
+
+  private async findOrCreateFileColumn(boardId: number): Promise<string> {
     const board = await this.mondayClient.getBoard(boardId);
 
     // Look for existing file column
@@ -232,29 +550,109 @@ export class FileSyncEngine {
   }
 
   /**
-   * Log file transfer to database
+   * Log file transfer to database. Transferred files also join the board's
+   * history, so later items in this run see them.
    */
-  private async logFileTransfer(
-    clickupTaskId: string,
-    mondayItemId: string,
-    attachment: ClickUpAttachment,
-    status: 'pending' | 'transferred' | 'skipped' | 'failed'
-  ): Promise<void> {
+  private async logFileTransfer(transfer: FileTransferLog): Promise<void> {
     const db = getServiceSupabase();
 
     await db.from('file_transfers').insert({
       job_id: this.jobId,
-      clickup_task_id: clickupTaskId,
-      monday_item_id: mondayItemId,
-      file_name: attachment.title,
-      file_size: attachment.size,
-      status,
-      transferred_at: status === 'transferred' ? new Date().toISOString() : null,
+      direction: transfer.direction,
+      clickup_task_id: transfer.clickupTaskId,
+      monday_item_id: transfer.mondayItemId,
+      monday_board_id: transfer.mondayBoardId,
+      file_name: transfer.fileName,
+      file_size: transfer.fileSize,
+      file_hash: transfer.fileHash || null,
+      version: transfer.version || 1,
+      status: transfer.status,
+      transferred_at: transfer.status === 'transferred' ? new Date().toISOString() : null,
     } as any);
+
+    const boardTransfers = this.boardTransfers.get(boardTransfersKey(transfer.mondayBoardId, transfer.direction));
+    if (transfer.status === 'transferred' && transfer.fileHash && boardTransfers) {
+      boardTransfers.unshift({
+        fileName: transfer.fileName,
+        fileHash: transfer.fileHash,
+        version: transfer.version || 1,
+        clickupTaskId: transfer.clickupTaskId,
+        mondayItemId: transfer.mondayItemId,
+      });
+    }
+  }
+
+  /**
+   * Earlier transfers of files with a hash, to the same item and task and,
+   * with duplicateScope board, to any item of the board
+   */
+  private async getTransferHistory(transfer: FileTransferLog, options: SyncOptions): Promise<TransferHistory> {
+    const db = getServiceSupabase();
+
+    const { data } = (await db
+      .from('file_transfers')
+      .select('file_name, file_hash, version, clickup_task_id, monday_item_id')
+      .eq('direction', transfer.direction)
+      .eq('clickup_task_id', transfer.clickupTaskId)
+      .eq('monday_item_id', transfer.mondayItemId)
+      .eq('status', 'transferred')
+      .not('file_hash', 'is', null)
+      .order('created_at', { ascending: false })) as { data: any[] | null };
+
+    return {
+      target: (data || []).map(toTransferredFile),
+      board: options.duplicateScope === 'board'
+        ? await this.getBoardTransfers(transfer.mondayBoardId, transfer.direction)
+        : [],
+    };
   }
 
   /**
-   * Update job progress
+   * The board's transfer history in one direction, loaded once per job
+   */
+  private getBoardTransfers(mondayBoardId: string, direction: TransferDirection): Promise<TransferredFile[]> {
+    return this.boardTransfers.getOrLoad(boardTransfersKey(mondayBoardId, direction), async () => {
+      const db = getServiceSupabase();
+      const { data } = (await db
+        .from('file_transfers')
+        .select('file_name, file_hash, version, clickup_task_id, monday_item_id')
+        .eq('direction', direction)
+        .eq('monday_board_id', mondayBoardId)
+        .eq('status', 'transferred')
+        .not('file_hash', 'is', null)
+        .order('created_at', { ascending: false })) as { data: any[] | null };
+
+      return (data || []).map(toTransferredFile);
+    });
+  }
+
+  /**
+   * Check whether an earlier run of this job already transferred the file
+   */
+  private async wasTransferredByJob(
+    clickupTaskId: string,
+    mondayItemId: string,
+    fileName: string,
+    direction: TransferDirection
+  ): Promise<boolean> {
+    const db = getServiceSupabase();
+
+    const { data } = (await db
+      .from('file_transfers')
+      .select('id')
+      .eq('job_id', this.jobId)
+      .eq('direction', direction)
+      .eq('clickup_task_id', clickupTaskId)
+      .eq('monday_item_id', mondayItemId)
+      .eq('file_name', fileName)
+      .eq('status', 'transferred')
+      .limit(1)) as { data: any[] | null };
+
+    return !!data && data.length > 0;
+  }
+
+  /**
+   * Update job progress. Status is left to the worker so a pause or cancel isn't overwritten.
    */
   private async updateProgress(totalTasks: number, processedTasks: number): Promise<void> {
     const db = getServiceSupabase();
@@ -264,14 +662,13 @@ export class FileSyncEngine {
       .update({
         total_tasks: totalTasks,
         processed_tasks: processedTasks,
-        status: processedTasks < totalTasks ? 'running' : 'completed',
-        completed_at: processedTasks >= totalTasks ? new Date().toISOString() : null,
       } as any)
       .eq('id', this.jobId) as any);
   }
 
   /**
-   * Find matching Monday items for ClickUp tasks using various strategies
+   * Find matching Monday items for ClickUp tasks using various strategies.
+   * Ambiguous and unmatched tasks are left out of the returned map.
    */
   async findMatchingItems(
     clickupTasks: ClickUpTask[],
@@ -279,28 +676,60 @@ export class FileSyncEngine {
   ): Promise<Map<string, MondayItem>> {
     const matches = new Map<string, MondayItem>();
 
-    // Get all Monday items
-    const mondayItems = await this.mondayClient.getItems(mondayBoardId);
+    const matcher = new TaskMatcher(this.mondayClient, mondayBoardId);
+    await matcher.preload();
 
     for (const task of clickupTasks) {
-      // Strategy 1: Exact name match
-      let match = mondayItems.find(
-        item => item.name.toLowerCase() === task.name.toLowerCase()
-      );
+      const match = await matcher.match(task);
 
-      // Strategy 2: Fuzzy name match (contains)
-      if (!match) {
-        match = mondayItems.find(item =>
-          item.name.toLowerCase().includes(task.name.toLowerCase()) ||
-          task.name.toLowerCase().includes(item.name.toLowerCase())
-        );
-      }
-
-      if (match) {
-        matches.set(task.id, match);
+      if (match.status === 'matched' && match.item) {
+        matches.set(task.id, match.item);
+      } else if (match.status === 'ambiguous') {
+        console.warn(`Ambiguous Monday match for task ${task.name}: ${match.reason}`);
       }
     }
 
     return matches;
   }
 }
+
+/**
+ * An item's files and the files posted in its updates, each once
+ */
+const getItemFiles = (item: MondayItem): MondayAsset[] => {
+  const assets = [
+    ...(item.assets || []),
+    ...(item.updates || []).flatMap(update => update.assets || []),
+  ];
+
+  return assets.filter((asset, index) => assets.findIndex(other => other.id === asset.id) === index);
+};
+
+/**
+ * The ClickUp task an item is mapped to: its task_mappings row, else a
+ * "ClickUp ID" column. Tasks outside the synced list are ignored.
+ */
+const findMappedTask = (
+  item: MondayItem,
+  mappedTaskIds: Map<string, string>,
+  tasksById: Map<string, ClickUpTask>
+): ClickUpTask | undefined => {
+  const mappedTaskId = mappedTaskIds.get(item.id);
+  if (mappedTaskId && tasksById.has(mappedTaskId)) {
+    return tasksById.get(mappedTaskId);
+  }
+
+  const idColumn = item.column_values?.find(cv => cv.title?.trim().toLowerCase() === 'clickup id');
+  return idColumn?.text ? tasksById.get(idColumn.text.trim()) : undefined;
+};
+
+const toTransferredFile = (row: any): TransferredFile => ({
+  fileName: row.file_name,
+  fileHash: row.file_hash,
+  version: row.version || 1,
+  clickupTaskId: row.clickup_task_id,
+  mondayItemId: row.monday_item_id,
+});
+
+const boardTransfersKey = (mondayBoardId: string, direction: TransferDirection): string =>
+  `${direction}:${mondayBoardId}`;
@@ -0,0 +1,93 @@
+import { getServiceSupabase } from '@/lib/db/supabase';
+
+export type JobHaltReason = 'paused' | 'cancelled' | 'lease_lost';
+
+// Jobs whose lease this process lost to another worker
+const lostLeases = new Set<string>();
+
+/**
+ * Flag a job running in this process as taken over by another worker, so its
+ * engine stops at the next check instead of writing alongside the new run
+ */
+export const markLeaseLost = (jobId: string): void => {
+  lostLeases.add(jobId);
+};
+
+export const clearLeaseLost = (jobId: string): void => {
+  lostLeases.delete(jobId);
+};
+
+/**
+ * Thrown by engines when a user paused or cancelled the job they are running,
+ * or another worker took it over
+ */
+export class JobHaltedError extends Error {
+  readonly reason: JobHaltReason;
+  readonly jobId: string;
+
+  constructor(reason: JobHaltReason, jobId: string) {
+    super(reason === 'lease_lost' ? `Job ${jobId} lost its lease` : `Job ${jobId} was ${reason}`);
+    this.name = 'JobHaltedError';
+    this.reason = reason;
+    this.jobId = jobId;
+  }
+}
+
+/**
+ * Lets a running engine notice that its sync_jobs row was paused or cancelled.
+ * Engines call check() between tasks; the status read is throttled so tight
+ * loops don't hit the database on every task.
+ */
+export class JobControl {
+  readonly jobId: string;
+  private checkIntervalMs: number;
+  private lastCheckedAt: number = 0;
+  private haltReason: JobHaltReason | null = null;
+
+  constructor(jobId: string, checkIntervalMs: number = 2000) {
+    this.jobId = jobId;
+    this.checkIntervalMs = checkIntervalMs;
+  }
+
+  /**
+   * Return why the job should stop, or null to keep going
+   */
+  async check(): Promise<JobHaltReason | null> {
+    // A lost lease skips the throttle; a pause or cancel still wins so it gets recorded
+    const leaseLost = lostLeases.has(this.jobId);
+    if (this.haltReason || (!leaseLost && Date.now() - this.lastCheckedAt < this.checkIntervalMs)) {
+      return this.haltReason;
+    }
+
+    this.lastCheckedAt = Date.now();
+
+    try {
+      const db = getServiceSupabase();
+      const { data: job } = (await db
+        .from('sync_jobs')
+        .select('status')
+        .eq('id', this.jobId)
+        .single()) as { data: any };
+
+      if (job?.status === 'paused' || job?.status === 'cancelled') {
+        this.haltReason = job.status;
+      }
+    } catch (error) {
+      // A failed status read shouldn't stop the job
+      console.error('Failed to check job status:', error);
+    }
+
+    if (!this.haltReason && leaseLost) {
+      this.haltReason = 'lease_lost';
+    }
+
+    return this.haltReason;
+  }
+
+  async throwIfHalted(): Promise<void> {
+    const reason = await this.check();
+    if (reason) {
+      throw new JobHaltedError(reason, this.jobId);
+    }
+  }
+}
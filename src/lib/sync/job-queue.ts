@@ -0,0 +1,339 @@
+import { getServiceSupabase } from '@/lib/db/supabase';
+import type { JobHaltReason } from './job-control';
+import type { Database } from '@/types/database';
+
+export type SyncJob = Database['public']['Tables']['sync_jobs']['Row'];
+export type SyncJobType = SyncJob['job_type'];
+
+export interface EnqueueSyncJobParams {
+  userId: string;
+  replicationId: string | null;
+  containerReplicationId?: string | null;
+  clickupListId: string | null;
+  mondayBoardId: string | null;
+  jobType: SyncJobType;
+  options?: Record<string, any>;
+  batchSize?: number;
+  coalesceRunning?: boolean; // Also reuse a running job already covering the clickupTaskIds
+}
+
+/**
+ * Queue a pending sync job. A pending job of the same type for the same
+ * replication (or container replication) is reused, merging its
+ * clickupTaskIds, so a burst of webhook events becomes a single job.
+ * With coalesceRunning, a running job whose clickupTaskIds already include
+ * every requested task is reused too; only safe for work that is done once,
+ * like creating a task's item, since the running job may have read the task
+ * before the event.
+ */
+export const enqueueSyncJob = async (params: EnqueueSyncJobParams): Promise<string> => {
+  const db = getServiceSupabase();
+  const options = params.options || {};
+
+  if (params.replicationId || params.containerReplicationId) {
+    const findJobs = (status: SyncJobStatus) => {
+      const query = db
+        .from('sync_jobs')
+        .select('id, options')
+        .eq('job_type', params.jobType)
+        .eq('status', status);
+
+      return params.replicationId
+        ? query.eq('replication_id', params.replicationId)
+        : query.eq('container_replication_id', params.containerReplicationId!);
+    };
+
+    const taskIds: string[] | undefined = options.clickupTaskIds;
+    if (params.coalesceRunning && taskIds?.length) {
+      const { data: runningJobs } = (await findJobs('running')) as { data: any[] | null };
+      const coveringJob = (runningJobs || []).find(job => {
+        const runningTaskIds: string[] | undefined = job.options?.clickupTaskIds;
+        return !!runningTaskIds && taskIds.every(id => runningTaskIds.includes(id));
+      });
+
+      if (coveringJob) {
+        return coveringJob.id;
+      }
+    }
+
+    const { data: pendingJob } = (await findJobs('pending').limit(1).maybeSingle()) as { data: any };
+
+    if (pendingJob) {
+      const pendingOptions = pendingJob.options || {};
+      const mergedOptions = { ...pendingOptions, ...options };
+      const taskIds = mergeTaskIds(pendingOptions.clickupTaskIds, options.clickupTaskIds);
+
+      if (taskIds) {
+        mergedOptions.clickupTaskIds = taskIds;
+      } else {
+        delete mergedOptions.clickupTaskIds;
+      }
+
+      await (db
+        .from('sync_jobs')
+        .update({ options: mergedOptions } as any)
+        .eq('id', pendingJob.id) as any);
+
+      return pendingJob.id;
+    }
+  }
+
+  const { data: job, error } = (await db
+    .from('sync_jobs')
+    .insert({
+      user_id: params.userId,
+      replication_id: params.replicationId,
+      container_replication_id: params.containerReplicationId || null,
+      clickup_list_id: params.clickupListId,
+      monday_board_id: params.mondayBoardId,
+      job_type: params.jobType,
+      status: 'pending',
+      options,
+      ...(params.batchSize && { batch_size: params.batchSize }),
+    } as any)
+    .select('id')
+    .single()) as { data: any; error: any };
+
+  if (error || !job) {
+    throw new Error(`Failed to enqueue ${params.jobType} job: ${error?.message}`);
+  }
+
+  return job.id;
+};
+
+export type SyncJobStatus = SyncJob['status'];
+
+export type SyncJobTransition =
+  | { ok: true; job: SyncJob }
+  | { ok: false; reason: 'not_found' | 'invalid_status' | 'still_running'; status?: SyncJobStatus };
+
+/**
+ * Move one of a user's jobs to a new status, but only from the given statuses.
+ * With unlockedOnly the job must not be leased, so a worker still winding
+ * down a paused job can't end up running alongside its replacement.
+ */
+export const transitionSyncJob = async (
+  jobId: string,
+  userId: string,
+  from: SyncJobStatus[],
+  to: SyncJobStatus,
+  options: { unlockedOnly?: boolean } = {}
+): Promise<SyncJobTransition> => {
+  const db = getServiceSupabase();
+
+  const { data: current } = (await db
+    .from('sync_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .maybeSingle()) as { data: SyncJob | null };
+
+  if (!current) {
+    return { ok: false, reason: 'not_found' };
+  }
+  if (!from.includes(current.status)) {
+    return { ok: false, reason: 'invalid_status', status: current.status };
+  }
+  // A lease that has lapsed belongs to a worker that died, so it doesn't count
+  const now = new Date().toISOString();
+  const isLeased = !!current.locked_by && !!current.locked_until
+    && new Date(current.locked_until).getTime() > Date.now();
+
+  if (options.unlockedOnly && isLeased) {
+    return { ok: false, reason: 'still_running', status: current.status };
+  }
+
+  const updates: Record<string, any> = { status: to };
+  if (to === 'cancelled') {
+    updates.completed_at = now;
+  }
+  if (to === 'pending') {
+    updates.run_after = now;
+  }
+
+  // Filtering on the current status makes the check-and-set atomic
+  let query = db
+    .from('sync_jobs')
+    .update(updates as any)
+    .eq('id', jobId)
+    .eq('status', current.status);
+
+  if (options.unlockedOnly) {
+    query = query.or(`locked_by.is.null,locked_until.lt.${now}`);
+  }
+
+  const { data: updated } = (await query.select('*')) as { data: SyncJob[] | null };
+
+  if (!updated || updated.length === 0) {
+    // The job moved on between the read and the update
+    const { data: latest } = (await db
+      .from('sync_jobs')
+      .select('status')
+      .eq('id', jobId)
+      .single()) as { data: any };
+
+    return { ok: false, reason: 'invalid_status', status: latest?.status };
+  }
+
+  const job = updated[0];
+
+  // A replication that isn't running won't update its own status, so do it here
+  if (!isLeased && (to === 'paused' || to === 'cancelled')) {
+    if ((job.job_type === 'full_replication' || job.job_type === 'reverse_replication') && job.replication_id) {
+      await (db
+        .from('list_replications')
+        .update({ status: to } as any)
+        .eq('id', job.replication_id) as any);
+    }
+
+    if (job.job_type === 'container_replication' && job.container_replication_id) {
+      await (db
+        .from('container_replications')
+        .update({ status: to } as any)
+        .eq('id', job.container_replication_id) as any);
+    }
+  }
+
+  return { ok: true, job };
+};
+
+/**
+ * Persistent job queue backed by the sync_jobs table. Workers lease a job,
+ * keep the lease alive with heartbeats while running it, and either complete
+ * it or fail it back to the queue with backoff until it is dead-lettered.
+ */
+export class JobQueue {
+  private workerId: string;
+  private leaseMs: number;
+
+  constructor(workerId: string, leaseMs: number = 5 * 60 * 1000) {
+    this.workerId = workerId;
+    this.leaseMs = leaseMs;
+  }
+
+  /**
+   * Lease the next runnable job, or null when the queue is empty
+   */
+  async claim(): Promise<SyncJob | null> {
+    const db = getServiceSupabase();
+
+    const { data, error } = (await db.rpc('claim_sync_job', {
+      p_worker_id: this.workerId,
+      p_lease_seconds: Math.ceil(this.leaseMs / 1000),
+    })) as { data: SyncJob[] | null; error: any };
+
+    if (error) {
+      throw new Error(`Failed to claim job: ${error.message}`);
+    }
+
+    return data?.[0] || null;
+  }
+
+  /**
+   * Extend the lease on a running job. Returns false if this worker no longer holds it.
+   */
+  async heartbeat(jobId: string): Promise<boolean> {
+    const db = getServiceSupabase();
+    const now = Date.now();
+
+    const { data } = (await db
+      .from('sync_jobs')
+      .update({
+        heartbeat_at: new Date(now).toISOString(),
+        locked_until: new Date(now + this.leaseMs).toISOString(),
+      } as any)
+      .eq('id', jobId)
+      .eq('locked_by', this.workerId)
+      .eq('status', 'running')
+      .select('id')) as { data: any[] | null };
+
+    return !!data && data.length > 0;
+  }
+
+  /**
+   * Mark a job as completed and release its lease. A job paused or cancelled
+   * while its last task finished keeps that status.
+   */
+  async complete(jobId: string): Promise<void> {
+    const db = getServiceSupabase();
+
+    await (db
+      .from('sync_jobs')
+      .update({
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+        locked_by: null,
+        locked_until: null,
+        last_error: null,
+      } as any)
+      .eq('id', jobId)
+      .eq('locked_by', this.workerId)
+      .eq('status', 'running') as any);
+  }
+
+  /**
+   * Release a job that stopped because it was paused or cancelled. The run
+   * doesn't count as a failed attempt.
+   */
+  async release(job: SyncJob, reason: JobHaltReason): Promise<void> {
+    const db = getServiceSupabase();
+
+    await (db
+      .from('sync_jobs')
+      .update({
+        attempts: Math.max(0, job.attempts - 1),
+        locked_by: null,
+        locked_until: null,
+      } as any)
+      .eq('id', job.id)
+      .eq('locked_by', this.workerId) as any);
+  }
+
+  /**
+   * Return a failed job to the queue with backoff, or dead-letter it once
+   * it has used up its attempts
+   */
+  async fail(job: SyncJob, error: Error): Promise<'retrying' | 'dead'> {
+    const db = getServiceSupabase();
+    const isDead = job.attempts >= job.max_attempts;
+    const errorLog = [
+      ...(job.error_log || []),
+      {
+        timestamp: new Date().toISOString(),
+        message: `Attempt ${job.attempts} failed`,
+        error: error.message,
+      },
+    ];
+
+    await (db
+      .from('sync_jobs')
+      .update({
+        status: isDead ? 'dead' : 'pending',
+        run_after: new Date(Date.now() + getRetryDelay(job.attempts)).toISOString(),
+        locked_by: null,
+        locked_until: null,
+        last_error: error.message,
+        error_log: errorLog,
+      } as any)
+      .eq('id', job.id)
+      .eq('locked_by', this.workerId)
+      .eq('status', 'running') as any);
+
+    return isDead ? 'dead' : 'retrying';
+  }
+}
+
+/**
+ * Backoff before the next attempt: 30s, 1m, 2m, ... capped at one hour
+ */
+export const getRetryDelay = (attempt: number): number => {
+  return Math.min(30 * 1000 * Math.pow(2, Math.max(0, attempt - 1)), 60 * 60 * 1000);
+};
+
+/**
+ * Union two task ID filters. A missing filter means "all tasks", which wins.
+ */
+const mergeTaskIds = (existing?: string[], incoming?: string[]): string[] | undefined => {
+  if (!existing || !incoming) return undefined;
+  return Array.from(new Set([...existing, ...incoming]));
+};
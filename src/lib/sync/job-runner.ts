@@ -0,0 +1,130 @@
+import { getCredentials } from '@/lib/db/supabase';
+import { FileSyncEngine } from './file-sync';
+import { UpdateSyncEngine } from './update-sync';
+import { ListReplicator } from '@/lib/replication/list-replicator';
+import { ContainerReplicator } from '@/lib/replication/container-replicator';
+import { MondayToClickUpReplicator } from '@/lib/replication/monday-to-clickup-replicator';
+import type { SyncJob } from './job-queue';
+import type { SyncOptions, UpdateSyncOptions } from '@/types';
+
+/**
+ * Run a leased job with the engine for its job type. Throws when the job
+ * failed so the queue can retry it, or JobHaltedError when it was paused or
+ * cancelled mid-run.
+ */
+export const runSyncJob = async (job: SyncJob): Promise<any> => {
+  const clickupCreds = await getCredentials(job.user_id, 'clickup');
+  const mondayCreds = await getCredentials(job.user_id, 'monday');
+
+  if (!clickupCreds?.access_token || !mondayCreds?.access_token) {
+    throw new Error('Missing authentication credentials for job owner');
+  }
+
+  switch (job.job_type) {
+    case 'file_sync': {
+      if (!job.clickup_list_id || !job.monday_board_id) {
+        throw new Error('File sync job needs a ClickUp list and a Monday board');
+      }
+
+      const engine = new FileSyncEngine(
+        clickupCreds.access_token,
+        mondayCreds.access_token,
+        job.id,
+        job.user_id
+      );
+      const options: SyncOptions = { batchSize: job.batch_size, ...job.options };
+      const result = await engine.syncFiles(job.clickup_list_id, parseInt(job.monday_board_id), options);
+
+      if (!result.success) {
+        throw new Error(`File sync finished with ${result.errors.length} errors: ${result.errors[0]?.error}`);
+      }
+      return result;
+    }
+
+    case 'full_replication': {
+      if (!job.replication_id) {
+        throw new Error('Replication job has no replication record');
+      }
+
+      // Resume is safe for first runs too: it creates the board when none exists yet,
+      // and on retries it skips everything an earlier attempt already migrated
+      const replicator = new ListReplicator(
+        clickupCreds.access_token,
+        mondayCreds.access_token,
+        job.replication_id,
+        job.user_id,
+        job.id
+      );
+
+      // Jobs queued for newly created tasks only replicate those tasks
+      const taskIds: string[] | undefined = job.options?.clickupTaskIds;
+      return taskIds?.length
+        ? await replicator.replicateTasks(taskIds)
+        : await replicator.resume();
+    }
+
+    case 'container_replication': {
+      if (!job.container_replication_id) {
+        throw new Error('Container replication job has no container replication record');
+      }
+
+      // Lists completed by an earlier attempt are skipped
+      const replicator = new ContainerReplicator(
+        clickupCreds.access_token,
+        mondayCreds.access_token,
+        job.container_replication_id,
+        job.user_id,
+        job.id
+      );
+      const result = await replicator.run();
+
+      if (!result.success) {
+        throw new Error(`Container replication finished with ${result.listsFailed} failed lists: ${result.errors[0]}`);
+      }
+      return result;
+    }
+
+    case 'reverse_replication': {
+      if (!job.replication_id) {
+        throw new Error('Reverse replication job has no replication record');
+      }
+
+      // Items copied by an earlier attempt are skipped
+      const replicator = new MondayToClickUpReplicator(
+        clickupCreds.access_token,
+        mondayCreds.access_token,
+        job.replication_id,
+        job.user_id,
+        job.id
+      );
+      return await replicator.run();
+    }
+
+    case 'update_sync': {
+      if (!job.replication_id) {
+        throw new Error('Update sync job has no replication record');
+      }
+
+      const engine = new UpdateSyncEngine(
+        clickupCreds.access_token,
+        mondayCreds.access_token,
+        job.id,
+        job.user_id
+      );
+      const options: UpdateSyncOptions = {
+        direction: 'both',
+        conflictStrategy: 'newest',
+        ...job.options,
+      };
+      const result = await engine.syncUpdates(job.replication_id, options);
+
+      if (!result.success) {
+        throw new Error(`Update sync finished with ${result.errors.length} errors: ${result.errors[0]?.error}`);
+      }
+      return result;
+    }
+
+    default:
+      throw new Error(`Unknown job type: ${job.job_type}`);
+  }
+};
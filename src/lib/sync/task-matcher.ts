@@ -0,0 +1,264 @@
+import { MondayAPI } from '@/lib/api/monday';
+import { getServiceSupabase } from '@/lib/db/supabase';
+import type { ClickUpTask } from '@/types/clickup';
+import type { MondayItem } from '@/types/monday';
+
+export type MatchStrategy = 'task_mapping' | 'clickup_id_column' | 'name';
+
+export interface MatchCandidate {
+  item: MondayItem;
+  confidence: number;
+}
+
+export interface TaskMatchResult {
+  status: 'matched' | 'ambiguous' | 'unmatched';
+  item?: MondayItem;
+  strategy?: MatchStrategy;
+  confidence: number;
+  candidates?: MatchCandidate[];
+  reason?: string;
+}
+
+export interface TaskMatcherOptions {
+  clickupIdColumnTitle?: string;
+  minNameConfidence?: number;
+  ambiguityMargin?: number;
+}
+
+/**
+ * Resolves which Monday item a ClickUp task belongs to.
+ *
+ * Strategies are tried in order of reliability: the task_mappings table, a
+ * dedicated "ClickUp ID" column on the board, and finally name similarity.
+ * Name matches carry a confidence score; when several items score too close
+ * to call, the result is "ambiguous" instead of a guess.
+ */
+export class TaskMatcher {
+  private monday: MondayAPI;
+  private boardId: number;
+  private clickupIdColumnTitle: string;
+  private minNameConfidence: number;
+  private ambiguityMargin: number;
+  private clickupIdColumnId: string | null | undefined; // undefined = not looked up yet
+  private boardItems?: MondayItem[];
+  private replicationIds?: string[]; // Replications onto this board
+
+  constructor(monday: MondayAPI, boardId: number, options: TaskMatcherOptions = {}) {
+    this.monday = monday;
+    this.boardId = boardId;
+    this.clickupIdColumnTitle = options.clickupIdColumnTitle ?? 'ClickUp ID';
+    this.minNameConfidence = options.minNameConfidence ?? 0.6;
+    this.ambiguityMargin = options.ambiguityMargin ?? 0.1;
+  }
+
+  /**
+   * Load every board item up front so matching many tasks doesn't query per task
+   */
+  async preload(): Promise<void> {
+    this.boardItems = await this.monday.getItems(this.boardId);
+  }
+
+  /**
+   * Find the Monday item for a ClickUp task
+   */
+  async match(task: ClickUpTask): Promise<TaskMatchResult> {
+    const mapped = await this.matchByTaskMapping(task);
+    if (mapped) {
+      return mapped;
+    }
+
+    const byColumn = await this.matchByClickUpIdColumn(task);
+    if (byColumn) {
+      return byColumn;
+    }
+
+    return this.matchByName(task);
+  }
+
+  /**
+   * Score how closely two item names match (1 = identical, 0 = unrelated)
+   */
+  static scoreNameMatch(a: string, b: string): number {
+    const left = normalizeName(a);
+    const right = normalizeName(b);
+
+    if (!left || !right) return 0;
+    if (left === right) return 1;
+
+    const [shorter, longer] = left.length <= right.length ? [left, right] : [right, left];
+    if (longer.includes(shorter)) {
+      // Containment is weaker evidence than equality, scaled by how much is shared
+      return 0.8 * (shorter.length / longer.length);
+    }
+
+    return 0;
+  }
+
+  /**
+   * Strategy 1: a task_mappings row created by a replication onto this board.
+   * A task replicated to several boards has one row per replication.
+   */
+  private async matchByTaskMapping(task: ClickUpTask): Promise<TaskMatchResult | null> {
+    const replicationIds = await this.getReplicationIds();
+    if (replicationIds.length === 0) {
+      return null;
+    }
+
+    const db = getServiceSupabase();
+    const { data: mappings } = (await db
+      .from('task_mappings')
+      .select('monday_item_id')
+      .eq('clickup_task_id', task.id)
+      .eq('entity_type', 'task')
+      .in('replication_id', replicationIds)
+      .not('monday_item_id', 'is', null)) as { data: any[] | null };
+
+    for (const mapping of mappings || []) {
+      const item = await this.findItemById(mapping.monday_item_id);
+      if (item) {
+        return {
+          status: 'matched',
+          item,
+          strategy: 'task_mapping',
+          confidence: 1,
+        };
+      }
+    }
+
+    if (mappings?.length) {
+      // Mapped item was deleted or moved off the board; fall through
+      console.warn(`Mapped Monday item for task ${task.name} is no longer on board ${this.boardId}`);
+    }
+    return null;
+  }
+
+  /**
+   * Strategy 2: a "ClickUp ID" column holding the task ID
+   */
+  private async matchByClickUpIdColumn(task: ClickUpTask): Promise<TaskMatchResult | null> {
+    const columnId = await this.getClickUpIdColumnId();
+    if (!columnId) {
+      return null;
+    }
+
+    const taskIds = [task.id, task.custom_id].filter(Boolean) as string[];
+
+    const items = this.boardItems
+      ? this.boardItems.filter(item => {
+          const value = item.column_values?.find(cv => cv.id === columnId);
+          return !!value?.text && taskIds.includes(value.text.trim());
+        })
+      : await this.monday.getItems(this.boardId, {
+          queryParams: {
+            rules: [{ column_id: columnId, compare_value: taskIds, operator: 'any_of' }],
+          },
+        });
+
+    if (items.length === 0) {
+      return null;
+    }
+
+    if (items.length > 1) {
+      return {
+        status: 'ambiguous',
+        strategy: 'clickup_id_column',
+        confidence: 0,
+        candidates: items.map(item => ({ item, confidence: 1 })),
+        reason: `${items.length} items share ClickUp ID ${task.id}`,
+      };
+    }
+
+    return {
+      status: 'matched',
+      item: items[0],
+      strategy: 'clickup_id_column',
+      confidence: 1,
+    };
+  }
+
+  /**
+   * Strategy 3: name similarity, only accepted when one candidate clearly wins
+   */
+  private async matchByName(task: ClickUpTask): Promise<TaskMatchResult> {
+    const items = this.boardItems ?? await this.monday.searchItemsByName(this.boardId, task.name);
+
+    const candidates = items
+      .map(item => ({ item, confidence: TaskMatcher.scoreNameMatch(task.name, item.name) }))
+      .filter(candidate => candidate.confidence >= this.minNameConfidence)
+      .sort((a, b) => b.confidence - a.confidence);
+
+    if (candidates.length === 0) {
+      return {
+        status: 'unmatched',
+        confidence: 0,
+        reason: 'No item name is similar enough',
+      };
+    }
+
+    const [best, runnerUp] = candidates;
+    if (runnerUp && best.confidence - runnerUp.confidence < this.ambiguityMargin) {
+      return {
+        status: 'ambiguous',
+        strategy: 'name',
+        confidence: best.confidence,
+        candidates,
+        reason: `${candidates.length} items have similar names`,
+      };
+    }
+
+    return {
+      status: 'matched',
+      item: best.item,
+      strategy: 'name',
+      confidence: best.confidence,
+      candidates,
+    };
+  }
+
+  private async findItemById(itemId: string): Promise<MondayItem | undefined> {
+    if (this.boardItems) {
+      return this.boardItems.find(item => item.id === itemId);
+    }
+
+    const items = await this.monday.getItems(this.boardId, {
+      queryParams: { ids: [itemId] },
+    });
+    return items[0];
+  }
+
+  private async getReplicationIds(): Promise<string[]> {
+    if (!this.replicationIds) {
+      const db = getServiceSupabase();
+      const { data, error } = (await db
+        .from('list_replications')
+        .select('id')
+        .eq('monday_board_id', this.boardId.toString())) as { data: any[] | null; error: any };
+
+      if (error) {
+        // Match by the other strategies this time and try again for the next task
+        console.error(`Failed to load replications for board ${this.boardId}:`, error.message);
+        return [];
+      }
+      this.replicationIds = (data || []).map(replication => replication.id);
+    }
+
+    return this.replicationIds;
+  }
+
+  private async getClickUpIdColumnId(): Promise<string | null> {
+    if (this.clickupIdColumnId === undefined) {
+      const board = await this.monday.getBoard(this.boardId);
+      const title = normalizeName(this.clickupIdColumnTitle);
+      const column = board.columns?.find(
+        col => !col.archived && normalizeName(col.title) === title
+      );
+      this.clickupIdColumnId = column?.id ?? null;
+    }
+
+    return this.clickupIdColumnId;
+  }
+}
+
+const normalizeName = (name: string): string => {
+  return name.toLowerCase().replace(/\s+/g, ' ').trim();
+};
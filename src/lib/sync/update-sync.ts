@@ -0,0 +1,530 @@
+import { ClickUpAPI } from '@/lib/api/clickup';
+import { MondayAPI } from '@/lib/api/monday';
+import { getServiceSupabase } from '@/lib/db/supabase';
+import { JobControl, JobHaltedError } from './job-control';
+import { loadStatusLabelMap } from '@/lib/replication/status-mapper';
+import { FieldMapper } from '@/lib/replication/field-mapper';
+import type { ClickUpTask, ClickUpCustomField, ClickUpTaskUpdate } from '@/types/clickup';
+import type { MondayItem, MondayColumnType } from '@/types/monday';
+import type { UpdateSyncOptions, SyncError } from '@/types';
+
+export interface UpdateSyncResult {
+  success: boolean;
+  tasksChecked: number;
+  mondayUpdates: number;
+  clickupUpdates: number;
+  conflicts: number;
+  errors: SyncError[];
+}
+
+/**
+ * A field kept in sync between a ClickUp task and a Monday item. Values are
+ * compared in a canonical string form so both sides can be diffed against the
+ * last synced value stored in task_mappings.synced_values.
+ */
+interface SyncedField {
+  key: string;
+  mondayColumnId: string;
+  readClickUp: (task: ClickUpTask) => string | null;
+  readMonday: (item: MondayItem) => string | null;
+  toMonday: (value: string | null) => any;
+  writeClickUp: (taskId: string, value: string | null, update: ClickUpTaskUpdate) => Promise<void>;
+}
+
+// Monday column types whose values can be read back and written to ClickUp
+const TWO_WAY_COLUMN_TYPES: MondayColumnType[] = [
+  'text',
+  'long-text',
+  'numbers',
+  'status',
+  'date',
+  'checkbox',
+  'email',
+  'link',
+  'phone',
+];
+
+/**
+ * Keeps replicated ClickUp tasks and Monday items in step after the initial
+ * replication. Each run diffs both sides against the last synced values and
+ * only writes fields that actually changed.
+ */
+export class UpdateSyncEngine {
+  private clickupClient: ClickUpAPI;
+  private mondayClient: MondayAPI;
+  private jobId: string;
+  private userId: string;
+  private jobControl: JobControl;
+
+  constructor(
+    clickupAccessToken: string,
+    mondayAccessToken: string,
+    jobId: string,
+    userId: string
+  ) {
+    this.clickupClient = new ClickUpAPI(clickupAccessToken);
+    this.mondayClient = new MondayAPI(mondayAccessToken);
+    this.jobId = jobId;
+    this.userId = userId;
+    this.jobControl = new JobControl(jobId);
+  }
+
+  /**
+   * Run one sync pass over every mapped task of a replication
+   */
+  async syncUpdates(
+    replicationId: string,
+    options: UpdateSyncOptions
+  ): Promise<UpdateSyncResult> {
+    const result: UpdateSyncResult = {
+      success: true,
+      tasksChecked: 0,
+      mondayUpdates: 0,
+      clickupUpdates: 0,
+      conflicts: 0,
+      errors: [],
+    };
+
+    try {
+      const db = getServiceSupabase();
+
+      const { data: replication } = (await db
+        .from('list_replications')
+        .select('clickup_list_id, monday_board_id')
+        .eq('id', replicationId)
+        .single()) as { data: any };
+
+      if (!replication?.monday_board_id) {
+        throw new Error(`Replication ${replicationId} has no Monday board to sync with`);
+      }
+
+      let mappingQuery = db
+        .from('task_mappings')
+        .select('*')
+        .eq('replication_id', replicationId)
+        .eq('entity_type', 'task')
+        .not('monday_item_id', 'is', null)
+        // Subitems live on their own board, which has none of the synced columns
+        .is('monday_parent_id', null);
+
+      if (options.clickupTaskIds?.length) {
+        mappingQuery = mappingQuery.in('clickup_task_id', options.clickupTaskIds);
+      }
+
+      const { data: taskMappings } = (await mappingQuery) as { data: any[] | null };
+      const mappings = taskMappings || [];
+
+      await this.updateProgress(mappings.length, 0);
+
+      if (mappings.length === 0) {
+        return result;
+      }
+
+      const fields = await this.buildSyncedFields(
+        replicationId,
+        replication.clickup_list_id,
+        parseInt(replication.monday_board_id)
+      );
+
+      // Load both sides up front rather than per task
+      console.log(`Loading ${mappings.length} mapped tasks for update sync...`);
+      // A task deleted since the event was queued is skipped below rather than failing the job
+      const tasks = options.clickupTaskIds?.length
+        ? (await Promise.allSettled(options.clickupTaskIds.map(id => this.clickupClient.getTask(id, false))))
+          .filter((outcome): outcome is PromiseFulfilledResult<ClickUpTask> => outcome.status === 'fulfilled')
+          .map(outcome => outcome.value)
+        : await this.clickupClient.getAllListTasks(replication.clickup_list_id);
+      const tasksById = new Map(tasks.map(task => [task.id, task]));
+
+      const items = await this.mondayClient.getItemsByIds(mappings.map(m => m.monday_item_id));
+      const itemsById = new Map(items.map(item => [item.id, item]));
+
+      for (let i = 0; i < mappings.length; i++) {
+        const mapping = mappings[i];
+        const task = tasksById.get(mapping.clickup_task_id);
+        const item = itemsById.get(mapping.monday_item_id);
+
+        await this.jobControl.throwIfHalted();
+
+        if (!task || !item) {
+          console.warn(
+            `Skipping mapping ${mapping.clickup_task_id} → ${mapping.monday_item_id}: ` +
+            `${!task ? 'ClickUp task' : 'Monday item'} not found`
+          );
+          continue;
+        }
+
+        try {
+          await this.syncMapping(mapping, task, item, fields, options, result);
+          result.tasksChecked++;
+        } catch (error: any) {
+          result.success = false;
+          result.errors.push({
+            taskId: task.id,
+            taskName: task.name,
+            error: error.message,
+            timestamp: new Date().toISOString(),
+            retryCount: 0,
+          });
+
+          console.error(`Error syncing updates for task ${task.name}:`, error);
+        }
+
+        await this.updateProgress(mappings.length, i + 1);
+      }
+
+      return result;
+    } catch (error: any) {
+      if (error instanceof JobHaltedError) {
+        console.log(`Update sync stopped: ${error.message}`);
+        throw error;
+      }
+
+      console.error('Update sync failed:', error);
+      result.success = false;
+      result.errors.push({
+        taskId: 'N/A',
+        taskName: 'Update Sync',
+        error: error.message,
+        timestamp: new Date().toISOString(),
+        retryCount: 0,
+      });
+
+      return result;
+    }
+  }
+
+  /**
+   * Diff one task/item pair and push changes in whichever direction they happened
+   */
+  private async syncMapping(
+    mapping: any,
+    task: ClickUpTask,
+    item: MondayItem,
+    fields: SyncedField[],
+    options: UpdateSyncOptions,
+    result: UpdateSyncResult
+  ): Promise<void> {
+    const lastValues: Record<string, string | null> = mapping.synced_values || {};
+    const syncedValues: Record<string, string | null> = { ...lastValues };
+    const mondayChanges: Record<string, any> = {};
+    const clickupChanges: Array<{ field: SyncedField; value: string | null }> = [];
+
+    for (const field of fields) {
+      const clickupValue = field.readClickUp(task);
+      const mondayValue = field.readMonday(item);
+
+      if (clickupValue === mondayValue) {
+        syncedValues[field.key] = clickupValue;
+        continue;
+      }
+
+      const hasBaseline = field.key in lastValues;
+      const clickupChanged = !hasBaseline || clickupValue !== lastValues[field.key];
+      const mondayChanged = hasBaseline && mondayValue !== lastValues[field.key];
+
+      let winner: 'clickup' | 'monday';
+      if (clickupChanged && mondayChanged) {
+        result.conflicts++;
+        winner = this.resolveConflict(task, item, options);
+        console.warn(
+          `Conflict on ${field.key} for task ${task.name}: ` +
+          `"${clickupValue}" vs "${mondayValue}", keeping ${winner}`
+        );
+      } else {
+        // Without a baseline, ClickUp is the source the item was replicated from
+        winner = mondayChanged ? 'monday' : 'clickup';
+      }
+
+      if (winner === 'clickup' && options.direction !== 'monday_to_clickup') {
+        mondayChanges[field.mondayColumnId] = field.toMonday(clickupValue);
+        syncedValues[field.key] = clickupValue;
+      } else if (winner === 'monday' && options.direction !== 'clickup_to_monday') {
+        clickupChanges.push({ field, value: mondayValue });
+        syncedValues[field.key] = mondayValue;
+      }
+    }
+
+    if (Object.keys(mondayChanges).length > 0) {
+      await this.mondayClient.changeMultipleColumnValues(
+        parseInt(item.board.id),
+        parseInt(item.id),
+        mondayChanges
+      );
+      result.mondayUpdates += Object.keys(mondayChanges).length;
+      console.log(`→ Updated Monday item ${item.name}: ${Object.keys(mondayChanges).join(', ')}`);
+    }
+
+    if (clickupChanges.length > 0) {
+      const taskUpdate: ClickUpTaskUpdate = {};
+      for (const { field, value } of clickupChanges) {
+        await field.writeClickUp(task.id, value, taskUpdate);
+      }
+
+      if (Object.keys(taskUpdate).length > 0) {
+        await this.clickupClient.updateTask(task.id, taskUpdate);
+      }
+      result.clickupUpdates += clickupChanges.length;
+      console.log(`← Updated ClickUp task ${task.name}: ${clickupChanges.map(c => c.field.key).join(', ')}`);
+    }
+
+    const changed = Object.keys(mondayChanges).length > 0 || clickupChanges.length > 0;
+    const db = getServiceSupabase();
+
+    await (db
+      .from('task_mappings')
+      .update({
+        synced_values: syncedValues,
+        sync_status: changed ? 'updated' : mapping.sync_status,
+        last_synced_at: new Date().toISOString(),
+      } as any)
+      .eq('id', mapping.id) as any);
+  }
+
+  private resolveConflict(
+    task: ClickUpTask,
+    item: MondayItem,
+    options: UpdateSyncOptions
+  ): 'clickup' | 'monday' {
+    if (options.conflictStrategy === 'clickup_wins') return 'clickup';
+    if (options.conflictStrategy === 'monday_wins') return 'monday';
+
+    const clickupUpdatedAt = parseInt(task.date_updated) || 0;
+    const mondayUpdatedAt = item.updated_at ? new Date(item.updated_at).getTime() : 0;
+    return mondayUpdatedAt > clickupUpdatedAt ? 'monday' : 'clickup';
+  }
+
+  /**
+   * Standard fields plus every two-way capable custom field mapping
+   */
+  private async buildSyncedFields(
+    replicationId: string,
+    clickupListId: string,
+    mondayBoardId: number
+  ): Promise<SyncedField[]> {
+    // Statuses are compared by their Monday label so renamed and merged labels don't look like changes
+    const statusMap = await loadStatusLabelMap(replicationId);
+
+    const db = getServiceSupabase();
+    const { data: fieldMappings } = (await db
+      .from('field_mappings')
+      .select('*')
+      .eq('replication_id', replicationId)
+      .neq('mapping_status', 'skipped')) as { data: any[] | null };
+
+    // The due date goes to the board's Due Date column, else its first date column no custom field uses
+    const board = await this.mondayClient.getBoard(mondayBoardId);
+    const columns = board.columns || [];
+    const mappedColumnIds = new Set((fieldMappings || []).map(mapping => mapping.monday_column_id));
+    const dueDateColumn = FieldMapper.findMatchingColumn(columns, 'Due Date', ['date'])
+      || columns.find(col => !col.archived && col.type === 'date' && !mappedColumnIds.has(col.id));
+
+    const fields: SyncedField[] = [
+      {
+        key: 'name',
+        mondayColumnId: 'name',
+        readClickUp: task => task.name || null,
+        readMonday: item => item.name || null,
+        toMonday: value => value || '',
+        writeClickUp: async (_taskId, value, update) => {
+          if (value) update.name = value;
+        },
+      },
+      {
+        key: 'status',
+        mondayColumnId: statusMap.getColumnId('status') || 'status',
+        readClickUp: task => statusMap.getMondayLabel('status', task.status?.status) || task.status?.status || null,
+        readMonday: item => readMondayColumn(item, statusMap.getColumnId('status') || 'status', 'status'),
+        toMonday: value => toMondayColumnValue(value, 'status'),
+        writeClickUp: async (_taskId, value, update) => {
+          if (value) update.status = statusMap.toClickUpValue('status', value) || value;
+        },
+      },
+    ];
+
+    if (dueDateColumn) {
+      fields.push({
+        key: 'due_date',
+        mondayColumnId: dueDateColumn.id,
+        readClickUp: task => toIsoDate(task.due_date),
+        readMonday: item => readMondayColumn(item, dueDateColumn.id, 'date'),
+        toMonday: value => toMondayColumnValue(value, 'date'),
+        writeClickUp: async (_taskId, value, update) => {
+          update.due_date = value ? Date.parse(`${value}T00:00:00Z`) : null;
+          update.due_date_time = false;
+        },
+      });
+    }
+
+    const customFields = await this.clickupClient.getCustomFields(clickupListId);
+    const customFieldsById = new Map(customFields.map(field => [field.id, field]));
+
+    for (const mapping of fieldMappings || []) {
+      const customField = customFieldsById.get(mapping.clickup_field_id);
+      const columnType = mapping.monday_column_type as MondayColumnType;
+
+      if (!customField || !mapping.monday_column_id) continue;
+      if (!TWO_WAY_COLUMN_TYPES.includes(columnType)) continue;
+
+      fields.push({
+        key: `cf:${customField.id}`,
+        mondayColumnId: mapping.monday_column_id,
+        readClickUp: task => {
+          const taskField = task.custom_fields?.find(f => f.id === customField.id);
+          return readClickUpCustomValue(customField, taskField?.value);
+        },
+        readMonday: item => readMondayColumn(item, mapping.monday_column_id, columnType),
+        toMonday: value => toMondayColumnValue(value, columnType),
+        writeClickUp: async (taskId, value) => {
+          if (value === null) {
+            await this.clickupClient.removeCustomFieldValue(taskId, customField.id);
+          } else {
+            await this.clickupClient.setCustomFieldValue(
+              taskId,
+              customField.id,
+              toClickUpCustomValue(customField, value)
+            );
+          }
+        },
+      });
+    }
+
+    return fields;
+  }
+
+  /**
+   * Update job progress. Status is left to the worker so a pause or cancel isn't overwritten.
+   */
+  private async updateProgress(totalTasks: number, processedTasks: number): Promise<void> {
+    const db = getServiceSupabase();
+
+    await (db
+      .from('sync_jobs')
+      .update({
+        total_tasks: totalTasks,
+        processed_tasks: processedTasks,
+      } as any)
+      .eq('id', this.jobId) as any);
+  }
+}
+
+const toIsoDate = (timestamp: string | number | null | undefined): string | null => {
+  if (timestamp === null || timestamp === undefined || timestamp === '') return null;
+  const date = new Date(typeof timestamp === 'number' ? timestamp : parseInt(timestamp));
+  return isNaN(date.getTime()) ? null : date.toISOString().split('T')[0];
+};
+
+const normalizeNumber = (value: any): string | null => {
+  const number = parseFloat(value);
+  return isNaN(number) ? null : String(number);
+};
+
+/**
+ * Read a ClickUp custom field value in canonical form
+ */
+const readClickUpCustomValue = (field: ClickUpCustomField, value: any): string | null => {
+  if (field.type === 'checkbox') {
+    return value === true || value === 'true' ? 'true' : 'false';
+  }
+
+  if (value === null || value === undefined || value === '') return null;
+
+  switch (field.type) {
+    case 'drop_down': {
+      const option = (field.type_config?.options || []).find(
+        (o: any) => o.orderindex === value || o.id === value
+      );
+      return option?.name ?? null;
+    }
+    case 'date':
+      return toIsoDate(value);
+    case 'number':
+    case 'currency':
+      return normalizeNumber(value);
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Convert a canonical value into what ClickUp's set-field endpoint expects
+ */
+const toClickUpCustomValue = (field: ClickUpCustomField, value: string): any => {
+  switch (field.type) {
+    case 'drop_down': {
+      const option = (field.type_config?.options || []).find((o: any) => o.name === value);
+      if (!option) {
+        throw new Error(`"${value}" is not an option of ClickUp field ${field.name}`);
+      }
+      return option.id;
+    }
+    case 'date':
+      return Date.parse(`${value}T00:00:00Z`);
+    case 'checkbox':
+      return value === 'true';
+    case 'number':
+    case 'currency':
+      return parseFloat(value);
+    default:
+      return value;
+  }
+};
+
+/**
+ * Read a Monday column value in canonical form
+ */
+const readMondayColumn = (
+  item: MondayItem,
+  columnId: string,
+  columnType: MondayColumnType
+): string | null => {
+  const columnValue = item.column_values?.find(cv => cv.id === columnId);
+  let parsed: any = null;
+
+  try {
+    parsed = columnValue?.value ? JSON.parse(columnValue.value) : null;
+  } catch {
+    parsed = null;
+  }
+
+  switch (columnType) {
+    case 'checkbox':
+      return parsed?.checked === true || parsed?.checked === 'true' ? 'true' : 'false';
+    case 'date':
+      return parsed?.date || null;
+    case 'numbers':
+      return columnValue?.text ? normalizeNumber(columnValue.text) : null;
+    case 'email':
+      return parsed?.email || null;
+    case 'link':
+      return parsed?.url || null;
+    case 'phone':
+      return parsed?.phone || null;
+    default:
+      return columnValue?.text || null;
+  }
+};
+
+/**
+ * Convert a canonical value into a Monday column value (empty values clear the column)
+ */
+const toMondayColumnValue = (value: string | null, columnType: MondayColumnType): any => {
+  switch (columnType) {
+    case 'status':
+      return value ? { label: value } : {};
+    case 'date':
+      return value ? { date: value } : {};
+    case 'checkbox':
+      return value === 'true' ? { checked: 'true' } : {};
+    case 'email':
+      return value ? { email: value, text: value } : {};
+    case 'link':
+      return value ? { url: value, text: value } : {};
+    case 'phone':
+      return value ? { phone: value, countryShortName: 'US' } : {};
+    case 'long-text':
+      return value ? { text: value } : {};
+    default:
+      return value ?? '';
+  }
+};
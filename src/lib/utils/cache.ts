@@ -0,0 +1,83 @@
+// Simple in-memory cache with per-entry expiry. Without a TTL, entries last
+// as long as the cache, e.g. for columns looked up during one run.
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export class TTLCache<T = any> {
+  private entries = new Map<string, CacheEntry<T>>();
+  private inFlight = new Map<string, Promise<T>>();
+  private ttlMs: number;
+  private maxEntries: number;
+
+  constructor(ttlMs: number = Infinity, maxEntries: number = 500) {
+    this.ttlMs = ttlMs;
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return entry.value;
+  }
+
+  set(key: string, value: T): void {
+    // Evict the oldest entry once full; Map keeps insertion order
+    if (!this.entries.has(key) && this.entries.size >= this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.entries.delete(oldestKey);
+      }
+    }
+
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+  }
+
+  /**
+   * Return the cached value, or load and cache it. Concurrent callers for
+   * the same key share one load; a failed load isn't cached.
+   */
+  async getOrLoad(key: string, loader: () => Promise<T>): Promise<T> {
+    const cached = this.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    return this.inFlight.get(key) || this.load(key, loader);
+  }
+
+  /**
+   * Load and cache a fresh value, even if one is cached or already loading
+   */
+  reload(key: string, loader: () => Promise<T>): Promise<T> {
+    this.entries.delete(key);
+    return this.load(key, loader);
+  }
+
+  private load(key: string, loader: () => Promise<T>): Promise<T> {
+    // Only the latest load for a key writes it, so a reload isn't overwritten by a stale one
+    const pending: Promise<T> = loader()
+      .then((value) => {
+        if (this.inFlight.get(key) === pending) {
+          this.set(key, value);
+        }
+        return value;
+      })
+      .finally(() => {
+        if (this.inFlight.get(key) === pending) {
+          this.inFlight.delete(key);
+        }
+      });
+
+    this.inFlight.set(key, pending);
+    return pending;
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+const SAFE_URL_SCHEMES = ['http:', 'https:', 'mailto:'];
+
+/**
+ * Whether a URL may go into an href. Only web and mail links pass, so
+ * javascript: or data: links in synced content never reach Monday.
+ */
+export const isSafeUrl = (url: string): boolean => {
+  const scheme = url.trim().match(/^([a-z][a-z\d+.-]*:)/i)?.[1].toLowerCase();
+  return !!scheme && SAFE_URL_SCHEMES.includes(scheme);
+};
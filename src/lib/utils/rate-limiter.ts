@@ -10,6 +10,7 @@ export class RateLimiter {
   private requests: number[] = [];
   private config: RateLimiterConfig;
   private lastRequestTime: number = 0;
+  private pending: Promise<void> = Promise.resolve();
 
   constructor(config: RateLimiterConfig) {
     this.config = config;
@@ -46,7 +47,7 @@ export class RateLimiter {
 
     // Handle minimum interval between requests
     if (this.config.minInterval) {
-      const timeSinceLastRequest = now - this.lastRequestTime;
+      const timeSinceLastRequest = Date.now() - this.lastRequestTime;
       if (timeSinceLastRequest < this.config.minInterval) {
         const waitTime = this.config.minInterval - timeSinceLastRequest;
         await this.sleep(waitTime);
@@ -54,6 +55,21 @@ export class RateLimiter {
     }
   }
 
+  /**
+   * Wait for a free slot and claim it. Callers are served one at a time, so
+   * concurrent requests can't all see the same free slot and burst past the limit.
+   */
+  acquire(): Promise<void> {
+    const slot = this.pending.then(async () => {
+      await this.waitForReset();
+      this.recordRequest();
+    });
+
+    // Keep the chain going even if a wait is interrupted
+    this.pending = slot.catch(() => undefined);
+    return slot;
+  }
+
   recordRequest(): void {
     this.requests.push(Date.now());
     this.lastRequestTime = Date.now();
@@ -91,6 +107,8 @@ export class ExponentialBackoff {
   }
 
   async execute<T>(fn: () => Promise<T>, retryableErrors?: string[]): Promise<T> {
+    // Count attempts per call: one client's backoff is shared by concurrent requests
+    let attempt = 0;
     this.attempt = 0;
 
     while (true) {
@@ -99,7 +117,8 @@ export class ExponentialBackoff {
         this.attempt = 0; // Reset on success
         return result;
       } catch (error: any) {
-        this.attempt++;
+        attempt++;
+        this.attempt = attempt;
 
         // Check if error is retryable
         if (retryableErrors && retryableErrors.length > 0) {
@@ -112,16 +131,16 @@ export class ExponentialBackoff {
           }
         }
 
-        if (this.attempt >= this.maxAttempts) {
+        if (attempt >= this.maxAttempts) {
           throw new Error(`Max retry attempts (${this.maxAttempts}) exceeded: ${error.message}`);
         }
 
         const delay = Math.min(
-          this.baseDelay * Math.pow(2, this.attempt - 1),
+          this.baseDelay * Math.pow(2, attempt - 1),
           this.maxDelay
         );
 
-        console.log(`Attempt ${this.attempt} failed. Retrying in ${delay}ms...`);
+        console.log(`Attempt ${attempt} failed. Retrying in ${delay}ms...`);
         await this.sleep(delay);
       }
     }
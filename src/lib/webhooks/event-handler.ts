@@ -0,0 +1,168 @@
+import { getServiceSupabase, logActivity } from '@/lib/db/supabase';
+import { enqueueSyncJob } from '@/lib/sync/job-queue';
+import type { ClickUpWebhookPayload } from '@/types/clickup';
+import type { MondayWebhookPayload } from '@/types/monday';
+
+export interface WebhookHandleResult {
+  action: 'queued' | 'ignored';
+  jobId?: string;
+  reason?: string;
+}
+
+// Defaults for file sync jobs triggered by attachment events
+const WEBHOOK_FILE_SYNC_OPTIONS = {
+  batchSize: 10,
+  skipDuplicates: true,
+  includeAttachments: true,
+  includeComments: false,
+  includeSubtasks: false,
+};
+
+/**
+ * Turn a verified ClickUp webhook event into queued sync work
+ */
+export const handleClickUpEvent = async (
+  subscription: any,
+  payload: ClickUpWebhookPayload
+): Promise<WebhookHandleResult> => {
+  if (!payload.task_id) {
+    return { action: 'ignored', reason: 'Event has no task' };
+  }
+
+  const replication = await getReplication(subscription.replication_id);
+  if (!replication?.monday_board_id) {
+    return { action: 'ignored', reason: 'Replication has no Monday board' };
+  }
+
+  const jobBase = {
+    userId: subscription.user_id,
+    replicationId: replication.id,
+    clickupListId: replication.clickup_list_id,
+    mondayBoardId: replication.monday_board_id,
+  };
+
+  if (payload.event === 'taskCreated') {
+    // Only the new task is replicated; a job already creating it is reused
+    const jobId = await enqueueSyncJob({
+      ...jobBase,
+      jobType: 'full_replication',
+      options: { clickupTaskIds: [payload.task_id] },
+      coalesceRunning: true,
+    });
+    return { action: 'queued', jobId };
+  }
+
+  const mapping = await findTaskMapping(replication.id, { clickupTaskId: payload.task_id });
+  if (!mapping) {
+    return { action: 'ignored', reason: `Task ${payload.task_id} is not mapped` };
+  }
+
+  if (payload.event === 'taskAttachmentUpdated') {
+    const jobId = await enqueueSyncJob({
+      ...jobBase,
+      jobType: 'file_sync',
+      options: { ...WEBHOOK_FILE_SYNC_OPTIONS, clickupTaskIds: [payload.task_id] },
+    });
+    return { action: 'queued', jobId };
+  }
+
+  if (payload.event === 'taskUpdated') {
+    const jobId = await enqueueSyncJob({
+      ...jobBase,
+      jobType: 'update_sync',
+      options: {
+        direction: 'both',
+        conflictStrategy: 'newest',
+        clickupTaskIds: [payload.task_id],
+      },
+    });
+    return { action: 'queued', jobId };
+  }
+
+  return { action: 'ignored', reason: `Unhandled event ${payload.event}` };
+};
+
+/**
+ * Turn a verified Monday webhook event into queued sync work
+ */
+export const handleMondayEvent = async (
+  subscription: any,
+  payload: MondayWebhookPayload
+): Promise<WebhookHandleResult> => {
+  const event = payload.event;
+  if (!event?.pulseId) {
+    return { action: 'ignored', reason: 'Event has no item' };
+  }
+
+  const replication = await getReplication(subscription.replication_id);
+  if (!replication) {
+    return { action: 'ignored', reason: 'Replication not found' };
+  }
+
+  const mapping = await findTaskMapping(replication.id, { mondayItemId: event.pulseId.toString() });
+
+  // Monday reports create_item as "create_pulse" and column changes as "update_column_value"
+  if (event.type === 'create_pulse' || event.type === 'create_item') {
+    if (!mapping) {
+      // Items created directly in Monday have no ClickUp task to sync with yet
+      await logActivity(subscription.user_id, 'monday_item_created_unmapped', {
+        replicationId: replication.id,
+        mondayBoardId: event.boardId,
+        mondayItemId: event.pulseId,
+        mondayItemName: event.pulseName,
+      });
+    }
+    return { action: 'ignored', reason: mapping ? 'Item already mapped' : 'Item has no ClickUp task' };
+  }
+
+  if (!mapping) {
+    return { action: 'ignored', reason: `Item ${event.pulseId} is not mapped` };
+  }
+
+  const jobId = await enqueueSyncJob({
+    userId: subscription.user_id,
+    replicationId: replication.id,
+    clickupListId: replication.clickup_list_id,
+    mondayBoardId: replication.monday_board_id,
+    jobType: 'update_sync',
+    options: {
+      direction: 'both',
+      conflictStrategy: 'newest',
+      clickupTaskIds: [mapping.clickup_task_id],
+    },
+  });
+  return { action: 'queued', jobId };
+};
+
+const getReplication = async (replicationId: string | null): Promise<any> => {
+  if (!replicationId) return null;
+
+  const db = getServiceSupabase();
+  const { data } = (await db
+    .from('list_replications')
+    .select('id, clickup_list_id, monday_board_id')
+    .eq('id', replicationId)
+    .single()) as { data: any };
+
+  return data;
+};
+
+const findTaskMapping = async (
+  replicationId: string,
+  by: { clickupTaskId?: string; mondayItemId?: string }
+): Promise<any> => {
+  const db = getServiceSupabase();
+
+  let query = db
+    .from('task_mappings')
+    .select('clickup_task_id, monday_item_id')
+    .eq('replication_id', replicationId)
+    .eq('entity_type', 'task');
+
+  query = by.clickupTaskId
+    ? query.eq('clickup_task_id', by.clickupTaskId)
+    : query.eq('monday_item_id', by.mondayItemId!);
+
+  const { data } = (await query.maybeSingle()) as { data: any };
+  return data;
+};
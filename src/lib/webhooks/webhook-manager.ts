@@ -0,0 +1,199 @@
+import crypto from 'crypto';
+import { ClickUpAPI } from '@/lib/api/clickup';
+import { MondayAPI } from '@/lib/api/monday';
+import { getServiceSupabase, encryptToken } from '@/lib/db/supabase';
+import type { ClickUpWebhookEvent } from '@/types/clickup';
+import type { MondayWebhookEvent } from '@/types/monday';
+
+export const CLICKUP_WEBHOOK_EVENTS: ClickUpWebhookEvent[] = [
+  'taskCreated',
+  'taskUpdated',
+  'taskAttachmentUpdated',
+];
+
+export const MONDAY_WEBHOOK_EVENTS: MondayWebhookEvent[] = [
+  'change_column_value',
+  'create_item',
+];
+
+export interface RegisteredWebhooks {
+  clickupWebhookId: string;
+  mondayWebhookIds: string[];
+}
+
+/**
+ * Registers and removes the ClickUp and Monday webhooks that keep a
+ * replication's list and board in sync.
+ */
+export class WebhookManager {
+  private clickup: ClickUpAPI;
+  private monday: MondayAPI;
+  private userId: string;
+
+  constructor(clickupToken: string, mondayToken: string, userId: string) {
+    this.clickup = new ClickUpAPI(clickupToken);
+    this.monday = new MondayAPI(mondayToken);
+    this.userId = userId;
+  }
+
+  /**
+   * Subscribe to task events on the list and item events on the board
+   */
+  async register(
+    replicationId: string,
+    appUrl: string,
+    clickupTeamId?: string
+  ): Promise<RegisteredWebhooks> {
+    const db = getServiceSupabase();
+
+    const { data: replication } = (await db
+      .from('list_replications')
+      .select('clickup_list_id, monday_board_id')
+      .eq('id', replicationId)
+      .single()) as { data: any };
+
+    if (!replication?.monday_board_id) {
+      throw new Error(`Replication ${replicationId} has no Monday board yet`);
+    }
+
+    const baseUrl = appUrl.replace(/\/$/, '');
+    const teamId = clickupTeamId || (await this.clickup.getWorkspaces())[0]?.id;
+    if (!teamId) {
+      throw new Error('No ClickUp workspace available to register webhooks on');
+    }
+
+    const clickupWebhook = await this.clickup.createWebhook(
+      teamId,
+      `${baseUrl}/api/webhooks/clickup`,
+      CLICKUP_WEBHOOK_EVENTS,
+      { listId: replication.clickup_list_id }
+    );
+
+    const { error: clickupError } = (await db.from('webhook_subscriptions').insert({
+      user_id: this.userId,
+      replication_id: replicationId,
+      service: 'clickup',
+      webhook_id: clickupWebhook.id,
+      resource_id: replication.clickup_list_id,
+      events: CLICKUP_WEBHOOK_EVENTS,
+      secret: encryptToken(clickupWebhook.secret),
+    } as any)) as { error: any };
+
+    // A webhook with no subscription row could never be verified or removed
+    if (clickupError) {
+      await this.clickup.deleteWebhook(clickupWebhook.id);
+      throw new Error(`Failed to record ClickUp webhook: ${clickupError.message}`);
+    }
+
+    // Monday creates one webhook per event type
+    const mondayWebhookIds: string[] = [];
+    for (const event of MONDAY_WEBHOOK_EVENTS) {
+      const mondayWebhook = await this.monday.createWebhook(
+        parseInt(replication.monday_board_id),
+        `${baseUrl}/api/webhooks/monday`,
+        event
+      );
+
+      const { error: mondayError } = (await db.from('webhook_subscriptions').insert({
+        user_id: this.userId,
+        replication_id: replicationId,
+        service: 'monday',
+        webhook_id: mondayWebhook.id,
+        resource_id: replication.monday_board_id,
+        events: [event],
+      } as any)) as { error: any };
+
+      if (mondayError) {
+        await this.monday.deleteWebhook(mondayWebhook.id);
+        throw new Error(`Failed to record Monday webhook: ${mondayError.message}`);
+      }
+
+      mondayWebhookIds.push(mondayWebhook.id);
+    }
+
+    console.log(`✓ Registered webhooks for replication ${replicationId}`);
+
+    return {
+      clickupWebhookId: clickupWebhook.id,
+      mondayWebhookIds,
+    };
+  }
+
+  /**
+   * Delete every webhook registered for a replication
+   */
+  async unregister(replicationId: string): Promise<number> {
+    const db = getServiceSupabase();
+
+    const { data: subscriptions } = (await db
+      .from('webhook_subscriptions')
+      .select('*')
+      .eq('replication_id', replicationId)) as { data: any[] | null };
+
+    let removed = 0;
+    for (const subscription of subscriptions || []) {
+      try {
+        if (subscription.service === 'clickup') {
+          await this.clickup.deleteWebhook(subscription.webhook_id);
+        } else {
+          await this.monday.deleteWebhook(subscription.webhook_id);
+        }
+        removed++;
+      } catch (error: any) {
+        // Already deleted on the remote side; still drop our record
+        console.error(`Failed to delete ${subscription.service} webhook ${subscription.webhook_id}:`, error.message);
+      }
+
+      await (db
+        .from('webhook_subscriptions')
+        .delete()
+        .eq('id', subscription.id) as any);
+    }
+
+    return removed;
+  }
+}
+
+/**
+ * Verify ClickUp's X-Signature header: HMAC-SHA256 of the raw body with the webhook secret
+ */
+export const verifyClickUpSignature = (
+  rawBody: string,
+  signature: string | null,
+  secret: string
+): boolean => {
+  if (!signature) return false;
+
+  const expected = crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+  return safeEqual(expected, signature);
+};
+
+/**
+ * Verify the JWT Monday sends in the Authorization header, signed with the app's signing secret
+ */
+export const verifyMondayAuthorization = (
+  authorization: string | null,
+  signingSecret: string
+): boolean => {
+  if (!authorization) return false;
+
+  const token = authorization.replace(/^Bearer\s+/i, '');
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return false;
+
+  const expected = crypto
+    .createHmac('sha256', signingSecret)
+    .update(`${header}.${payload}`)
+    .digest('base64')
+    .replace(/=+$/, '')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_');
+
+  return safeEqual(expected, signature);
+};
+
+const safeEqual = (a: string, b: string): boolean => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
@@ -19,7 +19,11 @@ export interface ClickUpWorkspace {
   name: string;
   color: string;
   avatar: string | null;
-  members: ClickUpUser[];
+  members: ClickUpTeamMember[];
+}
+
+export interface ClickUpTeamMember {
+  user: ClickUpUser;
 }
 
 export interface ClickUpSpace {
@@ -79,6 +83,7 @@ export interface ClickUpTask {
   name: string;
   text_content: string;
   description: string;
+  markdown_description?: string; // Only with include_markdown_description
   status: ClickUpStatus;
   orderindex: string;
   date_created: string;
@@ -95,8 +100,8 @@ export interface ClickUpTask {
   time_estimate: number | null;
   time_spent: number | null;
   custom_fields: ClickUpCustomField[];
-  dependencies: string[];
-  linked_tasks: string[];
+  dependencies: ClickUpDependency[];
+  linked_tasks: ClickUpLinkedTask[];
   list: {
     id: string;
     name: string;
@@ -130,10 +135,25 @@ export interface ClickUpPriority {
   orderindex: string;
 }
 
+export type ClickUpCustomFieldType =
+  | 'drop_down'
+  | 'short_text'
+  | 'text'
+  | 'number'
+  | 'date'
+  | 'checkbox'
+  | 'url'
+  | 'email'
+  | 'phone'
+  | 'currency'
+  | 'labels'
+  | 'users'
+  | 'rating';
+
 export interface ClickUpCustomField {
   id: string;
   name: string;
-  type: 'drop_down' | 'text' | 'number' | 'date' | 'checkbox' | 'url' | 'email' | 'phone' | 'currency' | 'labels' | 'users';
+  type: ClickUpCustomFieldType;
   type_config: any;
   date_created: string;
   hide_from_guests: boolean;
@@ -166,10 +186,7 @@ export interface ClickUpAttachment {
 
 export interface ClickUpComment {
   id: string;
-  comment: Array<{
-    text: string;
-    attributes?: any;
-  }>;
+  comment: ClickUpCommentPart[];
   comment_text: string;
   user: ClickUpUser;
   resolved: boolean;
@@ -177,6 +194,31 @@ export interface ClickUpComment {
   assigned_by: ClickUpUser | null;
   reactions: any[];
   date: string;
+  reply_count?: number | string;
+}
+
+// One run of a comment's rich text; images and attachments come as their own parts
+export interface ClickUpCommentPart {
+  text: string;
+  type?: 'image' | 'attachment' | 'tag' | string;
+  attributes?: {
+    bold?: boolean;
+    italic?: boolean;
+    code?: boolean;
+    link?: string;
+    list?: { list: 'bullet' | 'ordered' } | string;
+    [key: string]: any;
+  };
+  image?: ClickUpCommentFile;
+  attachment?: ClickUpCommentFile;
+}
+
+export interface ClickUpCommentFile {
+  id: string;
+  name?: string;
+  title?: string;
+  extension?: string;
+  url: string;
 }
 
 export interface ClickUpChecklist {
@@ -202,6 +244,23 @@ export interface ClickUpChecklistItem {
   children: string[];
 }
 
+// task_id waits on depends_on; both tasks carry the entry
+export interface ClickUpDependency {
+  task_id: string;
+  depends_on: string;
+  type: number;
+  date_created: string;
+  userid: string;
+}
+
+// Links are symmetric: either side may be task_id
+export interface ClickUpLinkedTask {
+  task_id: string;
+  link_id: string;
+  date_created: string;
+  userid: string;
+}
+
 export interface ClickUpTag {
   name: string;
   tag_fg: string;
@@ -209,6 +268,49 @@ export interface ClickUpTag {
   creator: number;
 }
 
+// Writable task properties for PUT /task/{task_id}
+export interface ClickUpTaskUpdate {
+  name?: string;
+  description?: string;
+  markdown_description?: string;
+  status?: string;
+  priority?: number | null;
+  due_date?: number | null;
+  due_date_time?: boolean;
+  start_date?: number | null;
+  start_date_time?: boolean;
+  time_estimate?: number | null;
+  parent?: string;
+  archived?: boolean;
+  assignees?: {
+    add?: number[];
+    rem?: number[];
+  };
+}
+
+// Body for POST /list/{list_id}/task; subtasks set parent
+export interface ClickUpTaskCreate {
+  name: string;
+  markdown_description?: string;
+  assignees?: number[];
+  tags?: string[];
+  status?: string;
+  priority?: number | null;
+  due_date?: number | null;
+  due_date_time?: boolean;
+  start_date?: number | null;
+  start_date_time?: boolean;
+  parent?: string;
+  custom_fields?: { id: string; value: any }[];
+}
+
+// Body for POST /list/{list_id}/field
+export interface ClickUpCustomFieldCreate {
+  name: string;
+  type: ClickUpCustomFieldType;
+  type_config?: any;
+}
+
 // API Response wrappers
 export interface ClickUpListResponse {
   lists: ClickUpList[];
@@ -227,6 +329,70 @@ export interface ClickUpCommentsResponse {
   comments: ClickUpComment[];
 }
 
+// Time tracking
+export interface ClickUpTimeInterval {
+  id: string;
+  start: string;
+  end: string;
+  time: string; // Duration in milliseconds
+  source: string;
+  date_added: string;
+}
+
+export interface ClickUpTrackedTimeResponse {
+  data: {
+    user: ClickUpUser;
+    time: number;
+    intervals: ClickUpTimeInterval[];
+  }[];
+}
+
+export interface ClickUpTimeEntry {
+  id: string;
+  user: ClickUpUser;
+  start: string;
+  end: string;
+  duration: number; // Milliseconds
+  source: string;
+}
+
+// Webhooks
+export type ClickUpWebhookEvent =
+  | 'taskCreated'
+  | 'taskUpdated'
+  | 'taskDeleted'
+  | 'taskStatusUpdated'
+  | 'taskAssigneeUpdated'
+  | 'taskDueDateUpdated'
+  | 'taskCommentPosted'
+  | 'taskAttachmentUpdated'
+  | 'taskMoved';
+
+export interface ClickUpWebhook {
+  id: string;
+  userid: number;
+  team_id: number;
+  endpoint: string;
+  client_id: string;
+  events: ClickUpWebhookEvent[];
+  task_id: string | null;
+  list_id: number | null;
+  folder_id: number | null;
+  space_id: number | null;
+  health: {
+    status: string;
+    fail_count: number;
+  };
+  secret: string;
+}
+
+export interface ClickUpWebhookPayload {
+  event: ClickUpWebhookEvent;
+  webhook_id: string;
+  task_id?: string;
+  history_items?: any[];
+}
+
 // Rate limiting
 export interface RateLimitInfo {
   limit: number;
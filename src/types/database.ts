@@ -24,6 +24,7 @@ export interface Database {
           full_name?: string | null;
           updated_at?: string;
         };
+        Relationships: [];
       };
       api_credentials: {
         Row: {
@@ -58,20 +59,89 @@ export interface Database {
           workspace_id?: string | null;
           updated_at?: string;
         };
+        Relationships: [];
+      };
+      container_replications: {
+        Row: {
+          id: string;
+          user_id: string;
+          clickup_container_type: 'folder' | 'space';
+          clickup_container_id: string;
+          clickup_container_name: string | null;
+          layout: 'board_per_list' | 'group_per_list';
+          monday_workspace_id: string;
+          monday_folder_id: string | null;
+          monday_board_id: string | null;
+          status: 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+          total_lists: number;
+          completed_lists: number;
+          failed_lists: number;
+          total_tasks: number;
+          migrated_tasks: number;
+          replication_mode: 'full' | 'structure_only' | 'data_only';
+          options: any;
+          error_message: string | null;
+          started_at: string | null;
+          completed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          clickup_container_type: 'folder' | 'space';
+          clickup_container_id: string;
+          clickup_container_name?: string | null;
+          layout?: 'board_per_list' | 'group_per_list';
+          monday_workspace_id: string;
+          monday_folder_id?: string | null;
+          monday_board_id?: string | null;
+          status?: 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+          total_lists?: number;
+          completed_lists?: number;
+          failed_lists?: number;
+          total_tasks?: number;
+          migrated_tasks?: number;
+          replication_mode?: 'full' | 'structure_only' | 'data_only';
+          options?: any;
+          error_message?: string | null;
+          started_at?: string | null;
+          completed_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          clickup_container_name?: string | null;
+          monday_folder_id?: string | null;
+          monday_board_id?: string | null;
+          status?: 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+          total_lists?: number;
+          completed_lists?: number;
+          failed_lists?: number;
+          total_tasks?: number;
+          migrated_tasks?: number;
+          error_message?: string | null;
+          started_at?: string | null;
+          completed_at?: string | null;
+        };
+        Relationships: [];
       };
       list_replications: {
         Row: {
           id: string;
           user_id: string;
-          clickup_list_id: string;
+          container_replication_id: string | null;
+          direction: 'clickup_to_monday' | 'monday_to_clickup';
+          clickup_list_id: string | null;
           clickup_list_name: string | null;
           monday_board_id: string | null;
           monday_board_name: string | null;
-          status: 'mapping' | 'creating' | 'migrating' | 'completed' | 'failed';
+          monday_group_id: string | null;
+          status: 'mapping' | 'creating' | 'migrating' | 'paused' | 'completed' | 'failed' | 'cancelled';
           total_tasks: number;
           migrated_tasks: number;
           replication_mode: 'full' | 'structure_only' | 'data_only';
           options: any;
+          checkpoint: any | null;
           error_message: string | null;
           started_at: string | null;
           completed_at: string | null;
@@ -80,15 +150,19 @@ export interface Database {
         Insert: {
           id?: string;
           user_id: string;
-          clickup_list_id: string;
+          container_replication_id?: string | null;
+          direction?: 'clickup_to_monday' | 'monday_to_clickup';
+          clickup_list_id?: string | null;
           clickup_list_name?: string | null;
           monday_board_id?: string | null;
           monday_board_name?: string | null;
-          status?: 'mapping' | 'creating' | 'migrating' | 'completed' | 'failed';
+          monday_group_id?: string | null;
+          status?: 'mapping' | 'creating' | 'migrating' | 'paused' | 'completed' | 'failed' | 'cancelled';
           total_tasks?: number;
           migrated_tasks?: number;
           replication_mode?: 'full' | 'structure_only' | 'data_only';
           options?: any;
+          checkpoint?: any | null;
           error_message?: string | null;
           started_at?: string | null;
           completed_at?: string | null;
@@ -96,14 +170,18 @@ export interface Database {
         };
         Update: {
           id?: string;
+          clickup_list_id?: string | null;
           monday_board_id?: string | null;
-          status?: 'mapping' | 'creating' | 'migrating' | 'completed' | 'failed';
+          monday_group_id?: string | null;
+          status?: 'mapping' | 'creating' | 'migrating' | 'paused' | 'completed' | 'failed' | 'cancelled';
           total_tasks?: number;
           migrated_tasks?: number;
+          checkpoint?: any | null;
           error_message?: string | null;
           started_at?: string | null;
           completed_at?: string | null;
         };
+        Relationships: [];
       };
       field_mappings: {
         Row: {
@@ -140,21 +218,71 @@ export interface Database {
           mapping_status?: 'auto' | 'manual' | 'skipped';
           transformation_rule?: any | null;
         };
+        Relationships: [];
+      };
+      status_mappings: {
+        Row: {
+          id: string;
+          replication_id: string;
+          kind: 'status' | 'priority';
+          clickup_value: string;
+          clickup_name: string;
+          clickup_color: string | null;
+          clickup_order: number;
+          monday_column_id: string | null;
+          monday_label: string;
+          monday_label_index: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          replication_id: string;
+          kind: 'status' | 'priority';
+          clickup_value: string;
+          clickup_name: string;
+          clickup_color?: string | null;
+          clickup_order?: number;
+          monday_column_id?: string | null;
+          monday_label: string;
+          monday_label_index?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          clickup_name?: string;
+          clickup_color?: string | null;
+          clickup_order?: number;
+          monday_column_id?: string | null;
+          monday_label?: string;
+          monday_label_index?: number | null;
+          updated_at?: string;
+        };
+        Relationships: [];
       };
       sync_jobs: {
         Row: {
           id: string;
           user_id: string;
           replication_id: string | null;
-          clickup_list_id: string;
-          monday_board_id: string;
-          job_type: 'file_sync' | 'full_replication' | 'update_sync';
-          status: 'pending' | 'running' | 'completed' | 'failed';
+          container_replication_id: string | null;
+          clickup_list_id: string | null;
+          monday_board_id: string | null;
+          job_type: 'file_sync' | 'full_replication' | 'update_sync' | 'container_replication' | 'reverse_replication';
+          status: 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled' | 'dead';
           total_tasks: number;
           processed_tasks: number;
           batch_size: number;
           options: any;
           error_log: any[];
+          attempts: number;
+          max_attempts: number;
+          run_after: string;
+          locked_by: string | null;
+          locked_until: string | null;
+          heartbeat_at: string | null;
+          last_error: string | null;
           started_at: string | null;
           completed_at: string | null;
           created_at: string;
@@ -163,38 +291,56 @@ export interface Database {
           id?: string;
           user_id: string;
           replication_id?: string | null;
-          clickup_list_id: string;
-          monday_board_id: string;
-          job_type?: 'file_sync' | 'full_replication' | 'update_sync';
-          status?: 'pending' | 'running' | 'completed' | 'failed';
+          container_replication_id?: string | null;
+          clickup_list_id?: string | null;
+          monday_board_id?: string | null;
+          job_type?: 'file_sync' | 'full_replication' | 'update_sync' | 'container_replication' | 'reverse_replication';
+          status?: 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled' | 'dead';
           total_tasks?: number;
           processed_tasks?: number;
           batch_size?: number;
           options?: any;
           error_log?: any[];
+          attempts?: number;
+          max_attempts?: number;
+          run_after?: string;
+          locked_by?: string | null;
+          locked_until?: string | null;
+          heartbeat_at?: string | null;
+          last_error?: string | null;
           started_at?: string | null;
           completed_at?: string | null;
           created_at?: string;
         };
         Update: {
           id?: string;
-          status?: 'pending' | 'running' | 'completed' | 'failed';
+          status?: 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled' | 'dead';
           total_tasks?: number;
           processed_tasks?: number;
           error_log?: any[];
+          options?: any;
+          attempts?: number;
+          run_after?: string;
+          locked_by?: string | null;
+          locked_until?: string | null;
+          heartbeat_at?: string | null;
+          last_error?: string | null;
           started_at?: string | null;
           completed_at?: string | null;
         };
+        Relationships: [];
       };
       task_mappings: {
         Row: {
           id: string;
           replication_id: string;
           clickup_task_id: string;
+          entity_type: 'task' | 'checklist' | 'checklist_item';
           monday_item_id: string | null;
           clickup_parent_id: string | null;
           monday_parent_id: string | null;
           task_data: any | null;
+          synced_values: Record<string, string | null>;
           sync_status: 'pending' | 'synced' | 'updated' | 'failed';
           last_synced_at: string | null;
           created_at: string;
@@ -203,10 +349,12 @@ export interface Database {
           id?: string;
           replication_id: string;
           clickup_task_id: string;
+          entity_type?: 'task' | 'checklist' | 'checklist_item';
           monday_item_id?: string | null;
           clickup_parent_id?: string | null;
           monday_parent_id?: string | null;
           task_data?: any | null;
+          synced_values?: Record<string, string | null>;
           sync_status?: 'pending' | 'synced' | 'updated' | 'failed';
           last_synced_at?: string | null;
           created_at?: string;
@@ -215,19 +363,50 @@ export interface Database {
           id?: string;
           monday_item_id?: string | null;
           monday_parent_id?: string | null;
+          synced_values?: Record<string, string | null>;
           sync_status?: 'pending' | 'synced' | 'updated' | 'failed';
           last_synced_at?: string | null;
         };
+        Relationships: [];
+      };
+      comment_mappings: {
+        Row: {
+          id: string;
+          replication_id: string;
+          clickup_comment_id: string;
+          clickup_task_id: string;
+          clickup_parent_comment_id: string | null;
+          monday_item_id: string;
+          monday_update_id: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          replication_id: string;
+          clickup_comment_id: string;
+          clickup_task_id: string;
+          clickup_parent_comment_id?: string | null;
+          monday_item_id: string;
+          monday_update_id: string;
+          created_at?: string;
+        };
+        Update: {
+          monday_update_id?: string;
+        };
+        Relationships: [];
       };
       file_transfers: {
         Row: {
           id: string;
           job_id: string;
+          direction: 'clickup_to_monday' | 'monday_to_clickup';
           clickup_task_id: string;
           monday_item_id: string | null;
+          monday_board_id: string | null;
           file_name: string;
           file_size: number | null;
           file_hash: string | null;
+          version: number;
           status: 'pending' | 'transferred' | 'skipped' | 'failed';
           error_message: string | null;
           clickup_link: string | null;
@@ -237,11 +416,14 @@ export interface Database {
         Insert: {
           id?: string;
           job_id: string;
+          direction?: 'clickup_to_monday' | 'monday_to_clickup';
           clickup_task_id: string;
           monday_item_id?: string | null;
+          monday_board_id?: string | null;
           file_name: string;
           file_size?: number | null;
           file_hash?: string | null;
+          version?: number;
           status?: 'pending' | 'transferred' | 'skipped' | 'failed';
           error_message?: string | null;
           clickup_link?: string | null;
@@ -255,6 +437,64 @@ export interface Database {
           error_message?: string | null;
           transferred_at?: string | null;
         };
+        Relationships: [];
+      };
+      webhook_subscriptions: {
+        Row: {
+          id: string;
+          user_id: string;
+          replication_id: string | null;
+          service: 'clickup' | 'monday';
+          webhook_id: string;
+          resource_id: string;
+          events: string[];
+          secret: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          replication_id?: string | null;
+          service: 'clickup' | 'monday';
+          webhook_id: string;
+          resource_id: string;
+          events?: string[];
+          secret?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          events?: string[];
+          secret?: string | null;
+        };
+        Relationships: [];
+      };
+      user_mappings: {
+        Row: {
+          id: string;
+          user_id: string;
+          clickup_user_id: string;
+          clickup_email: string | null;
+          monday_user_id: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          clickup_user_id: string;
+          clickup_email?: string | null;
+          monday_user_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          clickup_email?: string | null;
+          monday_user_id?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [];
       };
       activity_logs: {
         Row: {
@@ -276,6 +516,17 @@ export interface Database {
         Update: {
           id?: string;
         };
+        Relationships: [];
+      };
+    };
+    Views: {};
+    Functions: {
+      claim_sync_job: {
+        Args: {
+          p_worker_id: string;
+          p_lease_seconds: number;
+        };
+        Returns: Database['public']['Tables']['sync_jobs']['Row'][];
       };
     };
   };
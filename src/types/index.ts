@@ -1,4 +1,6 @@
 // Central export for all types
+import type { MondayColumnType } from './monday';
+
 export * from './clickup';
 export * from './monday';
 export * from './database';
@@ -6,7 +8,7 @@ export * from './database';
 // Common application types
 export interface SyncProgress {
   jobId: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
   totalTasks: number;
   processedTasks: number;
   currentTask?: string;
@@ -26,10 +28,21 @@ export interface SyncError {
 export interface SyncOptions {
   batchSize: number;
   skipDuplicates: boolean;
+  duplicateScope?: 'item' | 'board'; // board: content already sent to any item of the board is a duplicate too
   includeAttachments: boolean;
   includeComments: boolean;
   includeSubtasks: boolean;
   clickupLinkField?: string;
+  clickupTaskIds?: string[];
+  direction?: 'clickup_to_monday' | 'monday_to_clickup'; // monday_to_clickup attaches item and update files to the mapped tasks
+  parallel?: boolean; // Sync several tasks' files at once
+  maxParallel?: number;
+}
+
+export interface UpdateSyncOptions {
+  direction: 'both' | 'clickup_to_monday' | 'monday_to_clickup';
+  conflictStrategy: 'newest' | 'clickup_wins' | 'monday_wins';
+  clickupTaskIds?: string[];
 }
 
 export interface ReplicationOptions {
@@ -38,8 +51,107 @@ export interface ReplicationOptions {
   includeComments: boolean;
   includeSubtasks: boolean;
   preserveAssignees: boolean;
-  preserveDates: boolean;
-  customFieldMapping?: Record<string, string>;
+  preserveDates: boolean; // Also writes a timeline column for tasks with a start and due date
+  includeTimeTracking?: boolean; // Total tracked time as a column, the entries as an update
+  customFieldMapping?: Record<string, FieldMappingOverride>; // Keyed by ClickUp field ID
+  mondayBoardId?: string; // Replicate into this existing board instead of creating one
+  mondayGroupId?: string; // Group on that board to put the items in
+  groupBy?: GroupByOption; // One group per value instead of a single group
+  groupByFieldId?: string; // Dropdown custom field to group by
+  checklists?: ChecklistMode; // Checklists as subitems or as one update per checklist
+  descriptionTarget?: 'update' | 'column'; // Description as a formatted update (default) or in a long-text column
+  dryRun?: boolean;
+  parallel?: boolean; // Migrate several tasks at once; item order on the board then follows completion order
+  maxParallel?: number;
+}
+
+// Options for replicating a Monday board into a new ClickUp list
+export interface ReverseReplicationOptions {
+  clickupContainerType: 'folder' | 'space'; // Where the list is created
+  clickupContainerId: string;
+  includeSubitems: boolean;
+  includeUpdates: boolean; // Updates and their replies as comments
+  includeFiles: boolean;
+  preserveAssignees: boolean; // People columns resolved to ClickUp users by email
+}
+
+// How ClickUp checklists are migrated: as subitems, as one formatted update per checklist, or not at all
+export type ChecklistMode = 'none' | 'subitems' | 'update';
+
+// How replicated items are spread over Monday groups
+export type GroupByOption = 'none' | 'status' | 'tag' | 'assignee' | 'dropdown';
+
+// A user's choice for one ClickUp custom field in the field-mapping editor
+export type FieldMappingAction = 'create' | 'skip' | 'existing' | 'merge';
+
+export interface FieldMappingOverride {
+  action: FieldMappingAction;
+  columnType?: MondayColumnType; // create: replaces the suggested type; merge: text or long-text
+  columnTitle?: string; // create: replaces the field name; merge: the shared column's title
+  mondayColumnId?: string; // existing: column already on the board
+}
+
+// Dry-run report of what a replication would create in Monday
+export interface ReplicationPlan {
+  list: {
+    id: string;
+    name: string;
+  };
+  boardName: string;
+  mode: ReplicationOptions['mode'];
+  columns: PlannedColumn[];
+  items: {
+    total: number;
+    topLevel: number;
+    subitems: number;
+  };
+  attachments: {
+    count: number;
+    totalBytes: number;
+  };
+  comments: {
+    count: number;
+  };
+  groups: string[]; // Groups items go into when grouping by a value
+  rejectedValues: RejectedValue[];
+}
+
+export interface PlannedColumn {
+  clickupFieldId?: string;
+  clickupFieldName?: string;
+  clickupFieldType?: string;
+  title: string;
+  type: MondayColumnType;
+  settings: any;
+  existingColumnId?: string; // Column already on the target board that will be reused
+}
+
+export interface RejectedValue {
+  taskId: string;
+  taskName: string;
+  fieldName: string;
+  columnType: MondayColumnType;
+  value: any;
+}
+
+export interface ReplicationCheckpoint {
+  stage: 'board_created' | 'fields_mapped' | 'migrating' | 'completed';
+  lastTaskId?: string;
+  processedTasks?: number;
+  updatedAt: string;
+}
+
+// Node returned by the ClickUp and Monday hierarchy browser routes
+export type HierarchyNodeType = 'workspace' | 'space' | 'folder' | 'list' | 'board' | 'group';
+
+export interface HierarchyNode {
+  id: string;
+  name: string;
+  type: HierarchyNodeType;
+  parentId: string | null;
+  hasChildren: boolean;
+  folderless?: boolean; // ClickUp list that sits directly in a space
+  count?: number; // Tasks in a ClickUp list, items on a Monday board
 }
 
 export interface AuthCredentials {
@@ -29,6 +29,7 @@ export interface MondayBoard {
   groups: MondayGroup[];
   items?: MondayItem[];
   items_count?: number;
+  type?: 'board' | 'sub_items_board' | 'document' | 'custom_object';
 }
 
 export interface MondayColumn {
@@ -75,6 +76,21 @@ export interface MondayGroup {
   deleted: boolean;
 }
 
+export interface MondayWorkspace {
+  id: string;
+  name: string;
+  kind: 'open' | 'closed';
+  description: string | null;
+}
+
+export interface MondayFolder {
+  id: string;
+  name: string;
+  parent?: {
+    id: string;
+  } | null;
+}
+
 export interface MondayItem {
   id: string;
   name: string;
@@ -94,6 +110,7 @@ export interface MondayItem {
   assets?: MondayAsset[];
   subscribers?: MondayUser[];
   updates?: MondayUpdate[];
+  subitems?: MondayItem[];
 }
 
 export interface MondayColumnValue {
@@ -127,6 +144,66 @@ export interface MondayUpdate {
   replies: MondayUpdate[];
 }
 
+// Cursor-based item pagination
+export interface MondayItemsPage {
+  cursor: string | null;
+  items: MondayItem[];
+}
+
+export interface MondayItemsQueryRule {
+  column_id: string;
+  compare_value: any[];
+  operator?:
+    | 'any_of'
+    | 'not_any_of'
+    | 'is_empty'
+    | 'is_not_empty'
+    | 'greater_than'
+    | 'lower_than'
+    | 'contains_text'
+    | 'not_contains_text';
+}
+
+export interface MondayItemsQueryParams {
+  rules?: MondayItemsQueryRule[];
+  operator?: 'and' | 'or';
+  ids?: string[];
+}
+
+// Webhooks
+export type MondayWebhookEvent =
+  | 'change_column_value'
+  | 'change_status_column_value'
+  | 'change_specific_column_value'
+  | 'change_name'
+  | 'create_item'
+  | 'item_deleted'
+  | 'create_update';
+
+export interface MondayWebhook {
+  id: string;
+  board_id: string;
+  event: MondayWebhookEvent;
+  config: string | null;
+}
+
+export interface MondayWebhookPayload {
+  challenge?: string;
+  event?: {
+    type: string;
+    boardId: number;
+    pulseId: number;
+    pulseName?: string;
+    groupId?: string;
+    columnId?: string;
+    columnType?: string;
+    value?: any;
+    previousValue?: any;
+    userId?: number;
+    triggerTime?: string;
+  };
+}
+
 // GraphQL query responses
 export interface MondayBoardsResponse {
   data: {
@@ -212,6 +289,7 @@ export interface FieldMapping {
   mondayColumn: string;
   mondayColumnType: MondayColumnType;
   transformationRule?: (value: any) => any;
+  merged?: boolean; // Several fields written as "Name: value" lines into one text column
 }
 
 // Error handling
@@ -0,0 +1,11 @@
+import { loadEnvConfig } from '@next/env';
+
+// Load .env.local/.env the same way Next.js does before anything reads process.env
+loadEnvConfig(process.cwd());
+
+import('./worker')
+  .then(({ startWorker }) => startWorker())
+  .catch((error) => {
+    console.error('Worker crashed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,91 @@
+import os from 'os';
+import { JobQueue } from '@/lib/sync/job-queue';
+import { runSyncJob } from '@/lib/sync/job-runner';
+import { JobHaltedError, markLeaseLost, clearLeaseLost } from '@/lib/sync/job-control';
+
+const POLL_INTERVAL_MS = parseInt(process.env.WORKER_POLL_INTERVAL_MS || '5000');
+const LEASE_MS = parseInt(process.env.WORKER_LEASE_MS || String(5 * 60 * 1000));
+
+/**
+ * Standalone worker loop: lease jobs from sync_jobs, run them, and report the
+ * outcome. If the process dies mid-job the lease lapses and another worker
+ * picks the job up again.
+ */
+export const startWorker = async (): Promise<void> => {
+  const workerId = `${os.hostname()}-${process.pid}`;
+  const queue = new JobQueue(workerId, LEASE_MS);
+  let stopping = false;
+
+  const stop = () => {
+    if (!stopping) {
+      console.log('Stopping worker after the current job...');
+      stopping = true;
+    }
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  console.log(`Worker ${workerId} started`);
+
+  while (!stopping) {
+    let job;
+    try {
+      job = await queue.claim();
+    } catch (error: any) {
+      console.error('Queue poll failed:', error.message);
+    }
+
+    if (!job) {
+      await sleep(POLL_INTERVAL_MS);
+      continue;
+    }
+
+    console.log(`Running ${job.job_type} job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`);
+
+    // Keep the lease alive while the job runs, and stop the run once it's gone
+    const heartbeat = setInterval(() => {
+      queue.heartbeat(job.id)
+        .then((held) => {
+          if (!held) {
+            console.error(`Lost the lease on job ${job.id}`);
+            markLeaseLost(job.id);
+          }
+        })
+        .catch((error) => {
+          console.error(`Heartbeat failed for job ${job.id}:`, error.message);
+        });
+    }, Math.floor(LEASE_MS / 3));
+
+    try {
+      if (job.attempts > job.max_attempts) {
+        // Lease expired on the last attempt, e.g. the previous worker crashed
+        throw new Error(`Job exceeded ${job.max_attempts} attempts`);
+      }
+
+      await runSyncJob(job);
+      await queue.complete(job.id);
+      console.log(`✓ Job ${job.id} completed`);
+    } catch (error: any) {
+      if (error instanceof JobHaltedError && error.reason === 'lease_lost') {
+        // Another worker holds the job now, so there's nothing to release
+        console.log(`Job ${job.id} stopped: ${error.message}`);
+      } else if (error instanceof JobHaltedError) {
+        // Paused or cancelled by the user; not a failure
+        await queue.release(job, error.reason);
+        console.log(`Job ${job.id} ${error.reason}`);
+      } else {
+        const outcome = await queue.fail(job, error instanceof Error ? error : new Error(String(error)));
+        console.error(`✗ Job ${job.id} failed (${outcome}):`, error.message);
+      }
+    } finally {
+      clearInterval(heartbeat);
+      clearLeaseLost(job.id);
+    }
+  }
+
+  console.log(`Worker ${workerId} stopped`);
+};
+
+const sleep = (ms: number): Promise<void> => {
+  return new Promise(resolve => setTimeout(resolve, ms));
+};